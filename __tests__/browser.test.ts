@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { AstroIntegrationLogger } from 'astro';
+import {
+  createBrowserApiMiddleware,
+  createBrowserApiScript,
+} from '../src/dev/browser';
+import { defineBrowserHandlers, defineIpcContract } from '../src/ipc';
+
+const contract = defineIpcContract<{
+  invoke: {
+    getCurrentTime: () => string;
+    add: (a: number, b: number) => number;
+    fail: () => void;
+    missing: () => void;
+  };
+  events: { tick: [time: string] };
+}>({
+  invoke: { getCurrentTime: true, add: true, fail: true, missing: true },
+  events: { tick: true },
+});
+
+describe('browser-mode electronAPI', () => {
+  const logger = { error: vi.fn() } as unknown as AstroIntegrationLogger;
+  let send: (channel: 'tick', time: string) => void;
+  let server: http.Server;
+  let endpoint: string;
+
+  const factory = vi.fn();
+  const handlers = defineBrowserHandlers(contract, (context) => {
+    factory();
+    send = context.send;
+    return {
+      getCurrentTime: () => '12:00:00',
+      add: async (a, b) => a + b,
+      fail: () => {
+        throw new Error('not available in the browser');
+      },
+    };
+  });
+  const loadHandlers = vi.fn().mockResolvedValue(handlers);
+
+  beforeAll(async () => {
+    const middleware = createBrowserApiMiddleware({ loadHandlers, logger });
+    server = http.createServer((request, response) =>
+      middleware(request, response, () => {
+        response.statusCode = 418;
+        response.end();
+      })
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    endpoint = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const invoke = (channel: string, args: unknown) =>
+    fetch(`${endpoint}/invoke/${channel}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+
+  it('should answer invoke calls with the handlers', async () => {
+    expect(await (await invoke('getCurrentTime', [])).json()).toEqual({
+      result: '12:00:00',
+    });
+    expect(await (await invoke('add', [1, 2])).json()).toEqual({ result: 3 });
+  });
+
+  it('should only create the handlers once per module', async () => {
+    await invoke('getCurrentTime', []);
+    expect(loadHandlers.mock.calls.length).toBeGreaterThan(1);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report errors and missing handlers', async () => {
+    const failed = await invoke('fail', []);
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({
+      error: 'not available in the browser',
+    });
+    expect(logger.error).toHaveBeenCalled();
+
+    const missing = await invoke('missing', []);
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      error: 'No browser handler for IPC channel "missing"',
+    });
+
+    expect((await invoke('add', { a: 1 })).status).toBe(400);
+  });
+
+  it('should refuse calls other sites could send', async () => {
+    const plain = await fetch(`${endpoint}/invoke/add`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: '[1, 2]',
+    });
+    expect(plain.status).toBe(415);
+
+    const crossOrigin = await fetch(`${endpoint}/invoke/add`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Origin: 'https://example.com',
+      },
+      body: '[1, 2]',
+    });
+    expect(crossOrigin.status).toBe(403);
+
+    const sameOrigin = await fetch(`${endpoint}/invoke/add`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Origin: new URL(endpoint).origin,
+      },
+      body: '[1, 2]',
+    });
+    expect(await sameOrigin.json()).toEqual({ result: 3 });
+  });
+
+  it('should answer malformed calls with 400', async () => {
+    const badOrigin = await fetch(`${endpoint}/invoke/add`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'garbage' },
+      body: '[1, 2]',
+    });
+    expect(badOrigin.status).toBe(400);
+
+    const badChannel = await invoke('%E0%A4%A', []);
+    expect(badChannel.status).toBe(400);
+    expect(await badChannel.json()).toEqual({
+      error: 'Invalid IPC channel name',
+    });
+  });
+
+  it('should pass other requests on', async () => {
+    expect((await fetch(`${endpoint}/other`)).status).toBe(418);
+  });
+
+  it('should stream events to connected browsers', async () => {
+    const response = await fetch(`${endpoint}/events`);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+
+    expect(decoder.decode((await reader.read()).value)).toBe(': connected\n\n');
+    send('tick', '12:00:01');
+    expect(decoder.decode((await reader.read()).value)).toBe(
+      'data: {"channel":"tick","args":["12:00:01"]}\n\n'
+    );
+
+    await reader.cancel();
+  });
+});
+
+describe('browser-mode client script', () => {
+  const run = (window: Record<string, unknown>, fetch: unknown) =>
+    new Function(
+      'window',
+      'fetch',
+      'EventSource',
+      'console',
+      createBrowserApiScript('/api')
+    )(window, fetch, vi.fn(), { info: vi.fn() });
+
+  it('should leave the preload API alone inside Electron', () => {
+    const electronAPI = {};
+    const window = { electronAPI };
+    run(window, vi.fn());
+    expect(window.electronAPI).toBe(electronAPI);
+  });
+
+  it('should forward calls to the dev server', async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      json: async () => ({ result: 3 }),
+    });
+    const window: Record<string, any> = {};
+    run(window, fetch);
+
+    expect(await window.electronAPI.add(1, 2)).toBe(3);
+    expect(fetch).toHaveBeenCalledWith('/api/invoke/add', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '[1,2]',
+    });
+  });
+
+  it('should reject with the server error', async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      json: async () => ({ error: 'No browser handler' }),
+    });
+    const window: Record<string, any> = {};
+    run(window, fetch);
+
+    await expect(window.electronAPI.missing()).rejects.toThrow(
+      'No browser handler'
+    );
+  });
+});
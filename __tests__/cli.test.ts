@@ -671,6 +671,64 @@ describe('CLI', () => {
     });
   });
 
+  describe('VS Code Launch Configuration', () => {
+    it('should write launch.json with the vscode command', async () => {
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+
+      const { main } = await import('../bin/cli');
+      await main(['vscode']);
+
+      expect(fs.copyFile).toHaveBeenCalledWith(
+        expect.stringContaining('templates/base/.vscode/launch.json'),
+        expect.stringContaining('.vscode/launch.json')
+      );
+      expect(fs.cp).not.toHaveBeenCalled();
+    });
+
+    it('should keep an existing launch.json unless confirmed', async () => {
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(confirm).mockResolvedValueOnce(false);
+
+      const { main } = await import('../bin/cli');
+      await main(['vscode']);
+
+      expect(confirm).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: '.vscode/launch.json already exists. Overwrite?',
+        })
+      );
+      expect(fs.copyFile).not.toHaveBeenCalled();
+    });
+
+    it('should add launch.json when configuring an existing project', async () => {
+      vi.mocked(fs.access).mockImplementation((path) => {
+        if (path.toString().endsWith('package.json')) {
+          return Promise.resolve(undefined);
+        }
+        return Promise.reject(new Error('ENOENT'));
+      });
+      vi.mocked(readFile).mockImplementation((path) => {
+        if (path.toString().endsWith('package.json')) {
+          return Promise.resolve(
+            JSON.stringify({
+              dependencies: { astro: '^1.0.0' },
+            })
+          );
+        }
+        return Promise.resolve('');
+      });
+      vi.mocked(confirm).mockResolvedValue(true);
+
+      const { main } = await import('../bin/cli');
+      await main();
+
+      expect(fs.copyFile).toHaveBeenCalledWith(
+        expect.stringContaining('launch.json'),
+        expect.stringContaining('.vscode/launch.json')
+      );
+    });
+  });
+
   describe('Package.json Configuration', () => {
     it('should set main field to dist-electron/main.js', async () => {
       vi.mocked(fs.access).mockImplementation((path) => {
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { rewriteHtml } from '../src/html';
+import {
+  getElectronAPI,
+  isElectron,
+  navigate,
+  resolveRouteUrl,
+} from '../src/client';
+import { createPageRewriteHandlers } from '../src/rewrite';
+import {
+  createRuntimeConfigScript,
+  parseRuntimeConfigScript,
+  type RuntimeConfig,
+} from '../src/runtime';
+
+const config: RuntimeConfig = {
+  format: 'directory',
+  trailingSlash: 'ignore',
+  base: '/',
+};
+
+const fileUrl = 'file:///app/dist/blog/post/index.html';
+
+describe('resolveRouteUrl', () => {
+  it('should use server paths under the dev server and custom protocols', () => {
+    expect(
+      resolveRouteUrl('/about', config, 'http://localhost:4321/blog/')
+    ).toBe('http://localhost:4321/about');
+    expect(
+      resolveRouteUrl(
+        '/about?tab=1',
+        { ...config, base: '/docs' },
+        'app://localhost/docs/'
+      )
+    ).toBe('app://localhost/docs/about?tab=1');
+  });
+
+  it('should point at the built file under file://', () => {
+    const page = { ...config, root: '../../' };
+
+    expect(resolveRouteUrl('/', page, fileUrl)).toBe(
+      'file:///app/dist/index.html'
+    );
+    expect(resolveRouteUrl('/about/#team', page, fileUrl)).toBe(
+      'file:///app/dist/about/index.html#team'
+    );
+    expect(
+      resolveRouteUrl('/about', { ...page, format: 'file' }, fileUrl)
+    ).toBe('file:///app/dist/about.html');
+    expect(
+      resolveRouteUrl('/docs/about', { ...page, base: '/docs' }, fileUrl)
+    ).toBe('file:///app/dist/about/index.html');
+  });
+
+  it('should use hash routes on hash-routed pages', () => {
+    const page = { ...config, hashRouting: true, root: './' };
+    const url = 'file:///app/dist/index.html#/old';
+
+    expect(resolveRouteUrl('/settings', page, url)).toBe(
+      'file:///app/dist/index.html#/settings'
+    );
+    expect(
+      resolveRouteUrl('/settings', { ...page, trailingSlash: 'always' }, url)
+    ).toBe('file:///app/dist/index.html#/settings/');
+  });
+
+  it('should resolve relative routes against the current page', () => {
+    expect(resolveRouteUrl('../other/', config, fileUrl)).toBe(
+      'file:///app/dist/blog/other/'
+    );
+  });
+});
+
+describe('runtime config', () => {
+  it('should be filled in per page by the build step', () => {
+    const html = `<script>${createRuntimeConfigScript(config)}</script>`;
+    const output = rewriteHtml(
+      html,
+      createPageRewriteHandlers({
+        ...config,
+        isHashRouting: true,
+        file: 'blog/post/index.html',
+        pageDir: 'blog/post',
+        pages: new Set(),
+      })
+    );
+
+    expect(
+      parseRuntimeConfigScript(output.replace(/<\/?script>/g, ''))
+    ).toEqual({ ...config, hashRouting: true, root: '../../' });
+  });
+
+  it('should ignore other scripts', () => {
+    expect(parseRuntimeConfigScript('console.log(1)')).toBeUndefined();
+  });
+});
+
+describe('client helpers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should detect Electron from the user agent', () => {
+    vi.stubGlobal('navigator', {
+      userAgent: 'Mozilla/5.0 Chrome/130.0.0.0 Electron/33.2.0 Safari/537.36',
+    });
+    expect(isElectron()).toBe(true);
+
+    vi.stubGlobal('navigator', { userAgent: 'Mozilla/5.0 Firefox/132.0' });
+    expect(isElectron()).toBe(false);
+  });
+
+  it('should return the API or explain why it is missing', () => {
+    const electronAPI = { ping: vi.fn() };
+    vi.stubGlobal('window', { electronAPI });
+    expect(getElectronAPI()).toBe(electronAPI);
+
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('navigator', { userAgent: 'Mozilla/5.0 Firefox/132.0' });
+    expect(() => getElectronAPI()).toThrow(
+      'window.electronAPI is only available inside Electron'
+    );
+  });
+
+  it('should navigate with the injected config', () => {
+    const location = {
+      href: 'file:///app/dist/index.html',
+      assign: vi.fn(),
+      replace: vi.fn(),
+    };
+    vi.stubGlobal('window', {
+      location,
+      __ASTRO_ELECTRON__: { ...config, format: 'file', root: './' },
+    });
+
+    navigate('/about');
+    expect(location.assign).toHaveBeenCalledWith('file:///app/dist/about.html');
+
+    navigate('/', { replace: true });
+    expect(location.replace).toHaveBeenCalledWith(
+      'file:///app/dist/index.html'
+    );
+  });
+
+  it('should refuse to navigate without the runtime config', () => {
+    const location = { href: 'file:///app/dist/index.html', assign: vi.fn() };
+    vi.stubGlobal('window', { location });
+
+    expect(() => navigate('/about')).toThrow('`clientConfig` option');
+    expect(location.assign).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { rewriteCss } from '../src/css';
+import { rewriteRootRelativeUrl } from '../src/rewrite';
+
+function rewrite(css: string, fromDir = '_astro'): string {
+  return rewriteCss(css, (url) => rewriteRootRelativeUrl(url, fromDir));
+}
+
+describe('rewriteCss', () => {
+  it('should rewrite url() references relative to the stylesheet', () => {
+    expect(rewrite('@font-face{src:url(/fonts/x.woff2)}')).toBe(
+      '@font-face{src:url(../fonts/x.woff2)}'
+    );
+    expect(rewrite(`body{background:url("/bg.png")}`)).toBe(
+      `body{background:url("../bg.png")}`
+    );
+    expect(rewrite(`body{background:url( '/bg.png' )}`)).toBe(
+      `body{background:url( '../bg.png' )}`
+    );
+  });
+
+  it('should rewrite @import references', () => {
+    expect(rewrite(`@import "/styles/base.css";`)).toBe(
+      `@import "../styles/base.css";`
+    );
+    expect(rewrite(`@import url(/styles/base.css);`)).toBe(
+      `@import url(../styles/base.css);`
+    );
+  });
+
+  it('should keep query strings and fragments', () => {
+    expect(rewrite('a{b:url(/icons.svg#menu)}', '.')).toBe(
+      'a{b:url(./icons.svg#menu)}'
+    );
+    expect(rewrite('a{b:url(/font.woff?v=2)}', 'nested/page')).toBe(
+      'a{b:url(../../font.woff?v=2)}'
+    );
+  });
+
+  it('should leave relative, external and data URLs alone', () => {
+    const css = `a{b:url(./x.png);c:url(https://a.b/x.png);d:url(data:image/png;base64,AA);e:url(#filter);f:url(//cdn.b/x.png)}`;
+    expect(rewrite(css)).toBe(css);
+  });
+
+  it('should not touch comments and strings', () => {
+    const css = `/* url(/x.png) */a::before{content:"url(/x.png)"}`;
+    expect(rewrite(css)).toBe(css);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import {
+  createElectronRunner,
+  getElectronArgs,
+  type DevOptions,
+} from '../src/dev/electron';
+
+function createElectronApp() {
+  return Object.assign(new EventEmitter(), {
+    stdout: new PassThrough(),
+    stderr: new PassThrough(),
+    exitCode: null,
+    signalCode: null,
+  }) as any;
+}
+
+function createRunner(dev: DevOptions, answer = false) {
+  const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+  const start = vi.fn(async () => {
+    const electronApp = createElectronApp();
+    (process as any).electronApp = electronApp;
+    return electronApp;
+  });
+  const confirm = vi.fn().mockResolvedValue(answer);
+  const runner = createElectronRunner({ dev, logger, start, confirm });
+  return { runner, start, confirm, logger };
+}
+
+describe('electron dev runner', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    delete (process as any).electronApp;
+  });
+
+  it('should pass debugging ports and extra arguments', () => {
+    expect(getElectronArgs()).toEqual(['.', '--no-sandbox']);
+    expect(
+      getElectronArgs({
+        inspect: true,
+        remoteDebuggingPort: 9333,
+        args: ['--lang=de'],
+      })
+    ).toEqual([
+      '.',
+      '--no-sandbox',
+      '--inspect=9229',
+      '--remote-debugging-port=9333',
+      '--lang=de',
+    ]);
+  });
+
+  it('should restart on main process changes by default', async () => {
+    const { runner, start } = createRunner({ inspect: 9230 });
+
+    await runner.onMainRebuilt();
+    await runner.onMainRebuilt();
+
+    expect(start).toHaveBeenCalledTimes(2);
+    expect(start).toHaveBeenLastCalledWith([
+      '.',
+      '--no-sandbox',
+      '--inspect=9230',
+    ]);
+  });
+
+  it('should prefer debug ports from the environment', async () => {
+    vi.stubEnv('ASTRO_ELECTRON_INSPECT', '9229');
+    vi.stubEnv('ASTRO_ELECTRON_REMOTE_DEBUGGING_PORT', '9222');
+    const { runner, start } = createRunner({ inspect: 9230 });
+
+    await runner.start();
+
+    expect(start).toHaveBeenCalledWith([
+      '.',
+      '--no-sandbox',
+      '--inspect=9229',
+      '--remote-debugging-port=9222',
+    ]);
+  });
+
+  it('should only start Electron once for preload changes', async () => {
+    const { runner, start } = createRunner({});
+
+    await runner.onPreloadRebuilt();
+    await runner.onPreloadRebuilt();
+
+    expect(start).toHaveBeenCalledOnce();
+  });
+
+  it('should leave a running app alone in manual mode', async () => {
+    const { runner, start, logger } = createRunner({ mainRestart: 'manual' });
+
+    await runner.onMainRebuilt();
+    await runner.onMainRebuilt();
+
+    expect(start).toHaveBeenCalledOnce();
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringContaining('dev toolbar')
+    );
+
+    // A crashed app is started again
+    (process as any).electronApp.exitCode = 1;
+    await runner.onMainRebuilt();
+    expect(start).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ask before restarting in prompt mode', async () => {
+    const declined = createRunner({ mainRestart: 'prompt' }, false);
+    await declined.runner.onMainRebuilt();
+    await declined.runner.onMainRebuilt();
+
+    expect(declined.confirm).toHaveBeenCalledOnce();
+    expect(declined.start).toHaveBeenCalledOnce();
+
+    const accepted = createRunner({ mainRestart: 'prompt' }, true);
+    await accepted.runner.onMainRebuilt();
+    await accepted.runner.onMainRebuilt();
+
+    expect(accepted.start).toHaveBeenCalledTimes(2);
+  });
+});
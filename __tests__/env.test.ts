@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { generateEnvDeclaration } from '../src/declarations';
+import {
+  checkEnvPrefix,
+  getEnvDefines,
+  loadEnvNames,
+  readPackageVersion,
+} from '../src/env';
+
+describe('main process env', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'astro-electron-env-'));
+    await fs.writeFile(
+      path.join(root, 'package.json'),
+      JSON.stringify({ name: 'app', version: '1.2.3' })
+    );
+    await fs.writeFile(
+      path.join(root, '.env'),
+      'MAIN_VITE_API_URL=https://api.example.com\nPUBLIC_TITLE=App\nSECRET=hunter2\n'
+    );
+    await fs.writeFile(
+      path.join(root, '.env.development'),
+      'MAIN_VITE_DEBUG=1\n'
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should reject prefixes shared with the renderer', () => {
+    expect(() => checkEnvPrefix('MAIN_VITE_')).not.toThrow();
+    expect(() => checkEnvPrefix('')).toThrow('must not be empty');
+    expect(() => checkEnvPrefix('PUBLIC_MAIN_')).toThrow(
+      'overlaps the renderer\'s "PUBLIC_"'
+    );
+    expect(() => checkEnvPrefix('APP_', ['PUBLIC_', 'APP_'])).toThrow(
+      'overlaps'
+    );
+  });
+
+  it('should define the built-in and declared constants', () => {
+    expect(
+      getEnvDefines({
+        dev: true,
+        version: '1.2.3',
+        constants: { UPDATE_CHANNEL: 'beta', RETRIES: 3 },
+      })
+    ).toEqual({
+      'import.meta.env.UPDATE_CHANNEL': '"beta"',
+      'import.meta.env.RETRIES': '3',
+      'import.meta.env.DEV': 'true',
+      'import.meta.env.PROD': 'false',
+      'import.meta.env.APP_VERSION': '"1.2.3"',
+    });
+    expect(() =>
+      getEnvDefines({ dev: false, version: '', constants: { 'a-b': 1 } })
+    ).toThrow('Invalid constant name "a-b"');
+  });
+
+  it('should read the app version from package.json', () => {
+    expect(readPackageVersion(root)).toBe('1.2.3');
+    expect(readPackageVersion(path.join(root, 'missing'))).toBe('0.0.0');
+  });
+
+  it('should only load prefixed variables', () => {
+    expect(loadEnvNames('development', root, 'MAIN_VITE_')).toEqual([
+      'MAIN_VITE_API_URL',
+      'MAIN_VITE_DEBUG',
+    ]);
+    expect(loadEnvNames('production', root, 'MAIN_VITE_')).toEqual([
+      'MAIN_VITE_API_URL',
+    ]);
+  });
+
+  it('should type constants and variables without their values', () => {
+    const declaration = generateEnvDeclaration(
+      { UPDATE_CHANNEL: 'beta', FEATURES: { sync: true }, PORTS: [1, 2] },
+      ['MAIN_VITE_API_URL']
+    );
+
+    expect(declaration).toContain('readonly UPDATE_CHANNEL: string;');
+    expect(declaration).toContain('readonly FEATURES: { "sync": boolean };');
+    expect(declaration).toContain('readonly PORTS: (number)[];');
+    expect(declaration).toContain('readonly MAIN_VITE_API_URL: string;');
+    expect(declaration).not.toContain('api.example.com');
+    expect(declaration).toContain('/// <reference types="vite/client" />');
+  });
+});
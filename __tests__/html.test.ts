@@ -0,0 +1,366 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { rewriteHtml } from '../src/html';
+import {
+  createAssetPattern,
+  createPageRewriteHandlers,
+  type CustomRewriteRule,
+  type RewriteRuleContext,
+  type UrlRewriteContext,
+} from '../src/rewrite';
+
+const context: UrlRewriteContext = {
+  isHashRouting: false,
+  file: 'index.html',
+  pageDir: '.',
+  format: 'directory',
+  trailingSlash: 'ignore',
+  base: '/',
+  pages: new Set(),
+};
+
+const fixturesDir = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  'fixtures',
+  'islands'
+);
+
+function rewrite(html: string, options = context): string {
+  return rewriteHtml(html, createPageRewriteHandlers(options));
+}
+
+describe('rewriteHtml', () => {
+  it('should keep untouched markup byte-for-byte', () => {
+    const html = `<!DOCTYPE html>
+<html lang="en">
+  <HEAD><meta charset=utf-8 ><title>Test</title></HEAD>
+  <body class='a   b'>
+    <!-- a comment with href="/nope" -->
+    <p>Plain   text &amp; entities</p>
+  </body>
+</html>`;
+    expect(rewrite(html)).toBe(html);
+  });
+
+  it('should rewrite double, single and unquoted attributes', () => {
+    expect(rewrite(`<img src="/_astro/a.png">`)).toBe(
+      `<img src="./_astro/a.png">`
+    );
+    expect(rewrite(`<img src='/_astro/a.png'>`)).toBe(
+      `<img src='./_astro/a.png'>`
+    );
+    expect(rewrite(`<img src=/_astro/a.png>`)).toBe(`<img src=./_astro/a.png>`);
+    expect(rewrite(`<img  SRC = "/logo.svg" >`)).toBe(
+      `<img  SRC = "./logo.svg" >`
+    );
+  });
+
+  it('should rewrite srcset candidates', () => {
+    expect(rewrite(`<img srcset="/_astro/a.png 1x, /_astro/b.png 2x">`)).toBe(
+      `<img srcset="./_astro/a.png 1x, ./_astro/b.png 2x">`
+    );
+  });
+
+  it('should rewrite poster and xlink:href', () => {
+    expect(rewrite(`<video poster="/poster.jpg"></video>`)).toBe(
+      `<video poster="./poster.jpg"></video>`
+    );
+    expect(rewrite(`<svg><use xlink:href="/icons.svg#x"></use></svg>`)).toBe(
+      `<svg><use xlink:href="./icons.svg#x"></use></svg>`
+    );
+  });
+
+  it('should rewrite meta refresh targets', () => {
+    expect(rewrite(`<meta http-equiv="refresh" content="0;url=/about">`)).toBe(
+      `<meta http-equiv="refresh" content="0;url=./about/index.html">`
+    );
+    expect(rewrite(`<meta name="description" content="/about">`)).toBe(
+      `<meta name="description" content="/about">`
+    );
+  });
+
+  it('should not touch attribute-like text in scripts and code blocks', () => {
+    const html = `<script>const a = '<a href="/about">';</script><pre><code>&lt;a href="/about"&gt;</code></pre>`;
+    expect(rewrite(html)).toBe(html);
+  });
+
+  it('should rewrite dynamic imports in inline scripts', () => {
+    expect(rewrite(`<script>import("/_astro/dynamic.js")</script>`)).toBe(
+      `<script>import("./_astro/dynamic.js")</script>`
+    );
+  });
+
+  it('should resolve assets and scripts from nested pages', () => {
+    const nested = { ...context, file: 'about/index.html', pageDir: 'about' };
+
+    expect(
+      rewrite(
+        `<script src="/_astro/a.js"></script><link rel="icon" href="/favicon.svg"><div hydrate="/_astro/c.js"></div><script>import("/_astro/d.js")</script><a href="/">Home</a>`,
+        nested
+      )
+    ).toBe(
+      `<script src="../_astro/a.js"></script><link rel="icon" href="../favicon.svg"><div hydrate="../_astro/c.js"></div><script>import("../_astro/d.js")</script><a href="../index.html">Home</a>`
+    );
+  });
+
+  it('should link to emitted files that are not pages', () => {
+    const post = {
+      ...context,
+      file: 'blog/post/index.html',
+      pageDir: 'blog/post',
+      files: new Set([
+        'rss.xml',
+        'site.webmanifest',
+        'files/report.pdf',
+        'p.webp',
+        'blog/post/index.html',
+      ]),
+    };
+
+    expect(
+      rewrite(
+        `<link rel="alternate" href="/rss.xml"><link rel="manifest" href="/site.webmanifest"><a href="/files/report.pdf#page=2">Report</a><video poster="/p.webp"></video><a href="/about">About</a>`,
+        post
+      )
+    ).toBe(
+      `<link rel="alternate" href="../../rss.xml"><link rel="manifest" href="../../site.webmanifest"><a href="../../files/report.pdf#page=2">Report</a><video poster="../../p.webp"></video><a href="../../about/index.html">About</a>`
+    );
+  });
+
+  it("should resolve the ./_astro/ paths Astro emits for base './'", () => {
+    const nested = { ...context, file: 'about/index.html', pageDir: 'about' };
+
+    expect(
+      rewrite(
+        `<script src="./_astro/a.js"></script><astro-island component-url="./_astro/B.js"></astro-island><script>import("./_astro/d.js")</script>`,
+        nested
+      )
+    ).toBe(
+      `<script src="../_astro/a.js"></script><astro-island component-url="../_astro/B.js"></astro-island><script>import("../_astro/d.js")</script>`
+    );
+  });
+
+  it('should rewrite links inside template and noscript elements', () => {
+    expect(rewrite(`<template><a href="/about">A</a></template>`)).toBe(
+      `<template><a href="./about/index.html">A</a></template>`
+    );
+    expect(rewrite(`<noscript><img src="/a.png"></noscript>`)).toBe(
+      `<noscript><img src="./a.png"></noscript>`
+    );
+  });
+
+  it('should rewrite inline styles relative to the page', () => {
+    expect(
+      rewrite(
+        `<style>body{background:url(/bg.png)}</style><div style="background: url('/bg.png')"></div>`,
+        { ...context, file: 'about/index.html', pageDir: 'about' }
+      )
+    ).toBe(
+      `<style>body{background:url(../bg.png)}</style><div style="background: url('../bg.png')"></div>`
+    );
+  });
+
+  it('should leave external URLs and anchors alone', () => {
+    const html = `<a href="https://astro.build/logo.png">A</a><a href="#top">T</a><a href="mailto:a@b.c">M</a><img src="data:image/png;base64,AAAA">`;
+    expect(rewrite(html)).toBe(html);
+  });
+
+  it('should escape rewritten values', () => {
+    expect(rewrite(`<a href="/search?a=1&amp;b=2">S</a>`)).toBe(
+      `<a href="./search/index.html?a=1&amp;b=2">S</a>`
+    );
+  });
+
+  it('should link pages relative to the current page', () => {
+    const nested = {
+      ...context,
+      file: 'blog/post/index.html',
+      pageDir: 'blog/post',
+    };
+    expect(
+      rewrite(
+        `<a href="/">Home</a><a href="/about/">About</a><a href="/blog/post/">Self</a><a href="/docs.html#intro">Docs</a>`,
+        nested
+      )
+    ).toBe(
+      `<a href="../../index.html">Home</a><a href="../../about/index.html">About</a><a href="./index.html">Self</a><a href="../../docs.html#intro">Docs</a>`
+    );
+  });
+
+  it("should follow Astro's build.format", () => {
+    const html = `<a href="/">Home</a><a href="/about/">About</a><a href="/blog">Blog</a>`;
+
+    expect(rewrite(html, { ...context, format: 'file' })).toBe(
+      `<a href="./index.html">Home</a><a href="./about.html">About</a><a href="./blog.html">Blog</a>`
+    );
+    expect(
+      rewrite(html, {
+        ...context,
+        format: 'preserve',
+        pages: new Set(['index.html', 'about.html', 'blog/index.html']),
+      })
+    ).toBe(
+      `<a href="./index.html">Home</a><a href="./about.html">About</a><a href="./blog/index.html">Blog</a>`
+    );
+  });
+
+  it('should strip the configured base', () => {
+    const withBase = { ...context, base: '/docs/' };
+    expect(
+      rewrite(
+        `<a href="/docs/">Home</a><a href="/docs/about">About</a><a href="/docsite">Other</a><img src="/docs/logo.svg">`,
+        withBase
+      )
+    ).toBe(
+      `<a href="./index.html">Home</a><a href="./about/index.html">About</a><a href="./docsite/index.html">Other</a><img src="./logo.svg">`
+    );
+  });
+
+  it('should convert page links to hash routes', () => {
+    expect(
+      rewrite(`<a href="/about/">A</a><a to='/blog'>B</a>`, {
+        ...context,
+        isHashRouting: true,
+      })
+    ).toBe(`<a href="#/about">A</a><a to='#/blog'>B</a>`);
+  });
+
+  it('should keep trailing slashes on hash routes when configured', () => {
+    expect(
+      rewrite(`<a href="/about">A</a><a href="/">Home</a>`, {
+        ...context,
+        isHashRouting: true,
+        trailingSlash: 'always',
+      })
+    ).toBe(`<a href="#/about/">A</a><a href="#/">Home</a>`);
+  });
+});
+
+describe('astro-island rewriting', () => {
+  const nested = {
+    ...context,
+    file: 'blog/post/index.html',
+    pageDir: 'blog/post',
+  };
+
+  it.each(['react', 'preact', 'vue', 'svelte', 'solid', 'lit'])(
+    'should rewrite %s islands',
+    (framework) => {
+      const html = fs.readFileSync(
+        path.join(fixturesDir, `${framework}.html`),
+        'utf-8'
+      );
+      const output = rewrite(html, nested);
+
+      expect(output).toMatch(/component-url="\.\.\/\.\.\/_astro\/[^"]+\.js"/);
+      expect(output).toMatch(/renderer-url="\.\.\/\.\.\/_astro\/[^"]+\.js"/);
+      // No root-absolute _astro reference survives, in attributes or props
+      expect(output).not.toMatch(/(?:"|&quot;)\/_astro\//);
+      // Server-rendered children are untouched
+      expect(output.slice(output.indexOf('await-children>'))).toBe(
+        html.slice(html.indexOf('await-children>'))
+      );
+    }
+  );
+
+  it('should rewrite before-hydration-url', () => {
+    const html = fs.readFileSync(path.join(fixturesDir, 'vue.html'), 'utf-8');
+    expect(rewrite(html, nested)).toContain(
+      'before-hydration-url="../../_astro/astro_scripts/before-hydration.DWsoPQeN.js"'
+    );
+  });
+
+  it('should rewrite asset paths in serialized props', () => {
+    const html = fs.readFileSync(path.join(fixturesDir, 'react.html'), 'utf-8');
+    const output = rewrite(html, nested);
+
+    expect(output).toContain(
+      '&quot;src&quot;:[0,&quot;../../_astro/logo.CdM7t2Ns.png&quot;]'
+    );
+    expect(output).toContain(
+      '&quot;href&quot;:[0,&quot;https://react.dev&quot;]'
+    );
+  });
+
+  it('should leave props without asset paths byte-for-byte', () => {
+    const html = `<astro-island component-url="./_astro/A.js" props="{&quot;a&quot;:[0,&quot;/about&quot;]}"></astro-island>`;
+    expect(rewrite(html)).toBe(html);
+  });
+});
+
+describe('custom rewrite rules', () => {
+  it('should rewrite extra URL attributes', () => {
+    const html = `<img data-src="/_astro/lazy.png"><a data-href="/about">About</a>`;
+    expect(
+      rewriteHtml(html, createPageRewriteHandlers(context), {
+        urlAttributes: ['data-src', 'DATA-HREF'],
+      })
+    ).toBe(
+      `<img data-src="./_astro/lazy.png"><a data-href="./about/index.html">About</a>`
+    );
+    expect(rewrite(html)).toBe(html);
+  });
+
+  it('should treat extra asset extensions as files', () => {
+    const html = `<video src="/intro.mp4"></video><link href="/font.woff2">`;
+    expect(rewrite(html)).toBe(
+      `<video src="./intro.mp4/index.html"></video><link href="./font.woff2/index.html">`
+    );
+    expect(
+      rewrite(html, {
+        ...context,
+        assetPattern: createAssetPattern(['mp4', '.woff2']),
+      })
+    ).toBe(`<video src="./intro.mp4"></video><link href="./font.woff2">`);
+  });
+
+  it('should run the custom rule before the built-in rules', () => {
+    const calls: RewriteRuleContext[] = [];
+    const customRule: CustomRewriteRule = (url, ruleContext) => {
+      calls.push(ruleContext);
+      if (url.startsWith('/docs/')) return `./docs.html#${url.slice(6)}`;
+      return undefined;
+    };
+
+    expect(
+      rewrite(
+        `<a href="/docs/intro">Docs</a><a href="/about">About</a><div hydrate="/docs/x.js"></div>`,
+        { ...context, customRule }
+      )
+    ).toBe(
+      `<a href="./docs.html#intro">Docs</a><a href="./about/index.html">About</a><div hydrate="./docs.html#x.js"></div>`
+    );
+    expect(calls[0]).toEqual({
+      file: 'index.html',
+      attribute: 'href',
+      element: 'a',
+      isHashRouting: false,
+      base: '/',
+    });
+  });
+
+  it('should pass style URLs to the custom rule', () => {
+    const customRule: CustomRewriteRule = (url) =>
+      url === '/bg.png' ? 'bg.png' : undefined;
+
+    expect(
+      rewrite(`<div style="background: url(/bg.png)"></div>`, {
+        ...context,
+        customRule,
+      })
+    ).toBe(`<div style="background: url(bg.png)"></div>`);
+  });
+
+  it('should record custom rewrites', () => {
+    const records: string[] = [];
+    rewrite(`<a href="/a">A</a>`, {
+      ...context,
+      customRule: () => './b.html',
+      record: (original, rewritten, rule) =>
+        records.push(`${rule}: ${original} -> ${rewritten}`),
+    });
+    expect(records).toEqual(['custom: /a -> ./b.html']);
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { integration } from '../src/integration';
+import {
+  getMainDefines,
+  getRendererDir,
+  integration,
+} from '../src/integration';
 import type { AstroConfig, AstroIntegrationLogger, RouteData } from 'astro';
 import type { Mock } from 'vitest';
 import path from 'path';
@@ -28,6 +32,8 @@ vi.mock('fs/promises', () => ({
   default: {
     readFile: vi.fn().mockResolvedValue('test content'),
     writeFile: vi.fn().mockResolvedValue(undefined),
+    readdir: vi.fn().mockResolvedValue([]),
+    mkdir: vi.fn().mockResolvedValue(undefined),
   },
 }));
 
@@ -68,6 +74,10 @@ vi.mock('electron', () => {
   };
 });
 
+// Files written to the build output, leaving out the page cache
+const outputWrites = (writeFile: Mock) =>
+  writeFile.mock.calls.filter(([file]) => !file.includes('.astro-electron'));
+
 describe('astro-electron integration', () => {
   let mockUpdateConfig: ReturnType<typeof vi.fn>;
   let mockConfig: AstroConfig;
@@ -76,6 +86,11 @@ describe('astro-electron integration', () => {
   beforeEach(() => {
     mockUpdateConfig = vi.fn();
     mockConfig = {
+      root: new URL('file:///mock/project/root/'),
+      outDir: new URL('file:///mock/project/root/dist/'),
+      base: '/',
+      trailingSlash: 'ignore',
+      build: { format: 'directory' },
       vite: {},
     } as AstroConfig;
 
@@ -148,6 +163,175 @@ describe('astro-electron integration', () => {
       );
     });
 
+    it('should inject the runtime config for the client helpers', () => {
+      const injectScript = vi.fn();
+      for (const clientConfig of [true, false]) {
+        const setupHook = integration({ clientConfig }).hooks[
+          'astro:config:setup'
+        ];
+
+        if (!setupHook) throw new Error('Setup hook not defined');
+
+        setupHook({
+          config: { ...mockConfig, base: '/app' },
+          command: 'build',
+          updateConfig: mockUpdateConfig,
+          isRestart: false,
+          addRenderer: vi.fn(),
+          addWatchFile: vi.fn(),
+          injectScript,
+          injectRoute: vi.fn(),
+          logger: mockLogger,
+          addClientDirective: vi.fn(),
+          addMiddleware: vi.fn(),
+          addDevToolbarApp: vi.fn(),
+          addDevOverlayPlugin: vi.fn(),
+        });
+      }
+
+      // Only when opted in, since a strict CSP blocks inline scripts
+      expect(injectScript.mock.calls).toEqual([
+        [
+          'head-inline',
+          'window.__ASTRO_ELECTRON__={"format":"directory","trailingSlash":"ignore","base":"/app"};',
+        ],
+      ]);
+    });
+
+    it('should inject the browser-mode API in dev', () => {
+      const electronIntegration = integration({ browser: true });
+      const setupHook = electronIntegration.hooks['astro:config:setup'];
+
+      if (!setupHook) throw new Error('Setup hook not defined');
+
+      const injectScript = vi.fn();
+      for (const command of ['dev', 'build'] as const) {
+        setupHook({
+          config: mockConfig,
+          command,
+          updateConfig: mockUpdateConfig,
+          isRestart: false,
+          addRenderer: vi.fn(),
+          addWatchFile: vi.fn(),
+          injectScript,
+          injectRoute: vi.fn(),
+          logger: mockLogger,
+          addClientDirective: vi.fn(),
+          addMiddleware: vi.fn(),
+          addDevToolbarApp: vi.fn(),
+          addDevOverlayPlugin: vi.fn(),
+        });
+      }
+
+      const browserScripts = injectScript.mock.calls.filter(([, content]) =>
+        content.includes('window.electronAPI')
+      );
+      expect(browserScripts).toEqual([
+        ['head-inline', expect.stringContaining('window.electronAPI')],
+      ]);
+    });
+
+    it('should add the Electron app to the dev toolbar', () => {
+      const addDevToolbarApp = vi.fn();
+      for (const [options, command] of [
+        [{}, 'dev'],
+        [{}, 'build'],
+        [{ toolbar: false }, 'dev'],
+      ] as const) {
+        const setupHook = integration(options).hooks['astro:config:setup'];
+        if (!setupHook) throw new Error('Setup hook not defined');
+
+        setupHook({
+          config: mockConfig,
+          command,
+          updateConfig: mockUpdateConfig,
+          injectScript: vi.fn(),
+          addDevToolbarApp,
+          logger: mockLogger,
+        } as any);
+      }
+
+      expect(addDevToolbarApp.mock.calls).toEqual([
+        [
+          expect.objectContaining({
+            id: 'astro-electron-ts',
+            entrypoint: 'astro-electron-ts/toolbar',
+          }),
+        ],
+      ]);
+    });
+
+    it('should serve browser-mode IPC from the dev server', async () => {
+      const electronIntegration = integration({
+        browser: { handlers: 'electron/browser.ts' },
+      });
+      const serverHook = electronIntegration.hooks['astro:server:setup'];
+
+      if (!serverHook) throw new Error('Server hook not defined');
+
+      const server = {
+        middlewares: { use: vi.fn() },
+        ssrLoadModule: vi.fn().mockResolvedValue({
+          default: { ping: () => 'pong' },
+        }),
+      };
+      await serverHook({
+        server: server as any,
+        logger: mockLogger,
+        toolbar: { on: vi.fn(), send: vi.fn() } as any,
+      });
+
+      const [[endpoint, middleware]] = server.middlewares.use.mock.calls;
+      expect(endpoint).toBe('/__astro-electron');
+
+      const { Readable } = await import('stream');
+      const request = Object.assign(Readable.from(['[]']), {
+        method: 'POST',
+        url: '/invoke/ping',
+        headers: { 'content-type': 'application/json' },
+      });
+      const response = {
+        setHeader: vi.fn(),
+        end: vi.fn(),
+        statusCode: 0,
+      };
+      await middleware(request, response, vi.fn());
+
+      expect(server.ssrLoadModule).toHaveBeenCalledWith(
+        path.resolve(process.cwd(), 'electron/browser.ts')
+      );
+      expect(response.end).toHaveBeenCalledWith('{"result":"pong"}');
+    });
+
+    it('should keep the base path in protocol mode', () => {
+      const electronIntegration = integration({ routing: 'protocol' });
+      const setupHook = electronIntegration.hooks['astro:config:setup'];
+
+      if (!setupHook) throw new Error('Setup hook not defined');
+
+      setupHook({
+        config: mockConfig,
+        command: 'build',
+        updateConfig: mockUpdateConfig,
+        isRestart: false,
+        addRenderer: vi.fn(),
+        addWatchFile: vi.fn(),
+        injectScript: vi.fn(),
+        injectRoute: vi.fn(),
+        logger: mockLogger,
+        addClientDirective: vi.fn(),
+        addMiddleware: vi.fn(),
+        addDevToolbarApp: vi.fn(),
+        addDevOverlayPlugin: vi.fn(),
+      });
+
+      expect(mockUpdateConfig).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          base: './',
+        })
+      );
+    });
+
     it('should use default electron entry points when no config provided', async () => {
       const electronIntegration = integration();
       const setupHook = electronIntegration.hooks['astro:config:setup'];
@@ -240,6 +424,237 @@ describe('astro-electron integration', () => {
     });
   });
 
+  describe('astro:config:done hook', () => {
+    it('should resolve the renderer directory from outDir', () => {
+      expect(getRendererDir(mockConfig)).toBe('dist');
+      expect(
+        getRendererDir({
+          ...mockConfig,
+          outDir: new URL('file:///mock/project/root/build/renderer/'),
+        })
+      ).toBe('build/renderer');
+    });
+
+    it('should inject window.electronAPI types from the IPC contract', () => {
+      const electronIntegration = integration({ ipc: 'electron/ipc.ts' });
+      const configDoneHook = electronIntegration.hooks['astro:config:done'];
+
+      if (!configDoneHook) throw new Error('Config done hook not defined');
+
+      const injectTypes = vi.fn();
+      configDoneHook({
+        config: mockConfig,
+        setAdapter: vi.fn(),
+        injectTypes,
+        logger: mockLogger,
+        buildOutput: 'static',
+      } as any);
+
+      expect(injectTypes).toHaveBeenCalledWith({
+        filename: 'ipc.d.ts',
+        content: expect.stringContaining(
+          "import type contract from '../../../electron/ipc';"
+        ),
+      });
+    });
+
+    it('should register the configured windows', () => {
+      const windows = {
+        main: { route: '/', width: 1000 },
+        preferences: { route: '/preferences/', preload: 'settings.mjs' },
+      };
+      const electronIntegration = integration({ windows });
+      const configDoneHook = electronIntegration.hooks['astro:config:done'];
+
+      if (!configDoneHook) throw new Error('Config done hook not defined');
+
+      const injectTypes = vi.fn();
+      configDoneHook({
+        config: mockConfig,
+        setAdapter: vi.fn(),
+        injectTypes,
+        logger: mockLogger,
+        buildOutput: 'static',
+      } as any);
+
+      expect(injectTypes).toHaveBeenCalledWith({
+        filename: 'windows.d.ts',
+        content: expect.stringContaining('"preferences": true;'),
+      });
+      expect(
+        JSON.parse(
+          JSON.parse(
+            getMainDefines(mockConfig, { windows })[
+              'process.env.ASTRO_ELECTRON_WINDOWS'
+            ]
+          )
+        )
+      ).toEqual(windows);
+    });
+
+    it('should register named preload scripts', () => {
+      const preload = {
+        input: { main: 'electron/preload.ts', viewer: 'electron/viewer.ts' },
+        format: 'esm' as const,
+      };
+      const electronIntegration = integration({ preload });
+      const configDoneHook = electronIntegration.hooks['astro:config:done'];
+
+      if (!configDoneHook) throw new Error('Config done hook not defined');
+
+      const injectTypes = vi.fn();
+      configDoneHook({
+        config: mockConfig,
+        setAdapter: vi.fn(),
+        injectTypes,
+        logger: mockLogger,
+        buildOutput: 'static',
+      } as any);
+
+      expect(injectTypes).toHaveBeenCalledWith({
+        filename: 'preloads.d.ts',
+        content: expect.stringContaining('interface PreloadRegistry'),
+      });
+      expect(
+        JSON.parse(
+          JSON.parse(
+            getMainDefines(mockConfig, { preload })[
+              'process.env.ASTRO_ELECTRON_PRELOADS'
+            ]
+          )
+        )
+      ).toEqual({ main: 'main.mjs', viewer: 'viewer.mjs' });
+      expect(
+        getMainDefines(mockConfig, {})['process.env.ASTRO_ELECTRON_PRELOAD']
+      ).toBe('"preload.cjs"');
+    });
+
+    it('should type the main process env', async () => {
+      const electronIntegration = integration({
+        constants: { UPDATE_CHANNEL: 'beta' },
+      });
+      const configDoneHook = electronIntegration.hooks['astro:config:done'];
+
+      if (!configDoneHook) throw new Error('Config done hook not defined');
+
+      const fs = await import('fs/promises');
+      const injectTypes = vi.fn();
+      await configDoneHook({
+        config: mockConfig,
+        setAdapter: vi.fn(),
+        injectTypes,
+        logger: mockLogger,
+        buildOutput: 'static',
+      } as any);
+
+      expect(fs.default.writeFile).toHaveBeenCalledWith(
+        path.join('/mock/project/root', '.astro/electron-env.d.ts'),
+        expect.stringContaining('readonly UPDATE_CHANNEL: string;')
+      );
+      // Pages get Astro's injected types, which must not carry main process env
+      expect(injectTypes).not.toHaveBeenCalledWith(
+        expect.objectContaining({ filename: 'env.d.ts' })
+      );
+    });
+
+    it('should refuse a concurrency that is not a positive integer', () => {
+      for (const concurrency of [NaN, 0, 2.5, '4' as unknown as number]) {
+        expect(() => integration({ concurrency })).toThrow(
+          '`concurrency` must be a positive integer'
+        );
+      }
+      expect(() => integration({ concurrency: 4 })).not.toThrow();
+    });
+
+    it('should refuse an env prefix shared with the renderer', () => {
+      const electronIntegration = integration({ envPrefix: 'PUBLIC_' });
+      const setupHook = electronIntegration.hooks['astro:config:setup'];
+
+      if (!setupHook) throw new Error('Setup hook not defined');
+
+      expect(() =>
+        setupHook({
+          config: mockConfig,
+          command: 'build',
+          updateConfig: mockUpdateConfig,
+          injectScript: vi.fn(),
+        } as any)
+      ).toThrow('overlaps');
+    });
+
+    it('should warn when types cannot be injected', () => {
+      const electronIntegration = integration({ ipc: 'electron/ipc.ts' });
+      const configDoneHook = electronIntegration.hooks['astro:config:done'];
+
+      if (!configDoneHook) throw new Error('Config done hook not defined');
+
+      configDoneHook({
+        config: mockConfig,
+        setAdapter: vi.fn(),
+        logger: mockLogger,
+        buildOutput: 'static',
+      } as any);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Astro 4.14')
+      );
+    });
+
+    it('should use build.format when post-processing', async () => {
+      const electronIntegration = integration();
+      const configDoneHook = electronIntegration.hooks['astro:config:done'];
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!configDoneHook || !buildHook) throw new Error('Hooks not defined');
+
+      await configDoneHook({
+        config: {
+          ...mockConfig,
+          build: { ...mockConfig.build, format: 'file' },
+        },
+        setAdapter: vi.fn(),
+        injectTypes: vi.fn(),
+        logger: mockLogger,
+        buildOutput: 'static',
+      } as any);
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readFile as any).mockResolvedValue(
+        '<a href="/">Home</a><a href="/about/">About</a>'
+      );
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [
+          {
+            route: '/blog',
+            component: '',
+            generate: vi.fn(),
+            params: [],
+            pattern: /\/blog/,
+            segments: [[]],
+            type: 'page',
+            prerender: false,
+            distURL: new URL('file:///mock/project/root/dist/blog.html'),
+            fallbackRoutes: [],
+            isIndex: false,
+            redirect: undefined,
+          },
+        ],
+        logger: mockLogger,
+        pages: [{ pathname: 'blog' }],
+        cacheManifest: false,
+      });
+
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/mock/project/root/dist/blog.html',
+        '<a href="./index.html">Home</a><a href="./about.html">About</a>'
+      );
+    });
+  });
+
   describe('astro:build:done hook', () => {
     it('should process routes and update file paths', async () => {
       const electronIntegration = integration();
@@ -272,7 +687,7 @@ describe('astro-electron integration', () => {
           segments: [[]],
           type: 'page',
           prerender: false,
-          distURL: new URL('file:///path/to/dist/index.html'),
+          distURL: new URL('file:///mock/project/root/dist/index.html'),
           fallbackRoutes: [],
           isIndex: false,
           redirect: undefined,
@@ -301,15 +716,17 @@ describe('astro-electron integration', () => {
       const content = htmlWriteCall?.[1];
 
       // Check for proper path transformations
-      expect(content).toContain(`file://${mockCwd}/dist/about/index.html`);
-      expect(content).toContain('src="./_astro//test.123456.png"');
-      expect(content).toContain('src="./_astro//hoisted.12345.js"');
-      expect(content).toContain('hydrate="./_astro//component.js"');
-      expect(content).toContain('import("./_astro//dynamic.js")');
+      expect(content).toContain('href="./about/index.html"');
+      expect(content).toContain('href="./blog/index.html"');
+      expect(content).not.toContain(mockCwd);
+      expect(content).toContain('src="./_astro/test.123456.png"');
+      expect(content).toContain('src="./_astro/hoisted.12345.js"');
+      expect(content).toContain('hydrate="./_astro/component.js"');
+      expect(content).toContain('import("./_astro/dynamic.js")');
     });
 
-    it('should handle hash routing components correctly', async () => {
-      const electronIntegration = integration();
+    it('should detect hash routing components in auto mode', async () => {
+      const electronIntegration = integration({ routing: 'auto' });
       const buildHook = electronIntegration.hooks['astro:build:done'];
 
       if (!buildHook) throw new Error('Build hook not defined');
@@ -338,7 +755,7 @@ describe('astro-electron integration', () => {
           segments: [[]],
           type: 'page',
           prerender: false,
-          distURL: new URL('file:///path/to/dist/router.jsx'),
+          distURL: new URL('file:///mock/project/root/dist/router.jsx'),
           fallbackRoutes: [],
           isIndex: false,
           redirect: undefined,
@@ -372,6 +789,597 @@ describe('astro-electron integration', () => {
       // Check that existing hash routes are preserved
       expect(content).toContain('href="#/existing"');
       expect(content).toContain('href="#/also-existing"');
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Using hash routing for router.jsx: file path "router.jsx" contains "router"'
+      );
+    });
+
+    it('should not guess hash routing by default', async () => {
+      const electronIntegration = integration();
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readFile as any).mockResolvedValue(
+        '<p>Our app uses a HashRouter.</p><a href="/about">About</a>'
+      );
+      (fs.default.readdir as any).mockResolvedValueOnce([
+        'blog/router-guide/index.html',
+      ]);
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [],
+        logger: mockLogger,
+        pages: [{ pathname: 'blog/router-guide/' }],
+        cacheManifest: false,
+      });
+
+      expect(writeFileMock.mock.calls[0][1]).toContain(
+        'href="../../about/index.html"'
+      );
+    });
+
+    it('should apply routing overrides by pathname glob', async () => {
+      const electronIntegration = integration({
+        routing: 'file',
+        routingOverrides: { '/app/**': 'hash' },
+      });
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readFile as any).mockResolvedValue(
+        '<a href="/settings">Settings</a>'
+      );
+      (fs.default.readdir as any).mockResolvedValueOnce([
+        'app/index.html',
+        'about/index.html',
+      ]);
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [],
+        logger: mockLogger,
+        pages: [{ pathname: 'app/' }, { pathname: 'about/' }],
+        cacheManifest: false,
+      });
+
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/mock/project/root/dist/app/index.html',
+        '<a href="#/settings">Settings</a>'
+      );
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/mock/project/root/dist/about/index.html',
+        '<a href="../settings/index.html">Settings</a>'
+      );
+    });
+
+    it('should name the file that failed to process', async () => {
+      const electronIntegration = integration();
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const consoleError = vi.spyOn(console, 'error');
+      (fs.default.readdir as any).mockResolvedValueOnce(['_astro/main.css']);
+      (fs.default.readFile as any).mockImplementation(async (file: string) => {
+        if (file.endsWith('.css')) throw new Error('EACCES');
+        return '';
+      });
+
+      await expect(
+        buildHook({
+          dir: new URL('file:///mock/project/root/dist/'),
+          routes: [],
+          logger: mockLogger,
+          pages: [],
+          cacheManifest: false,
+        })
+      ).rejects.toThrow(
+        'Could not process /mock/project/root/dist/_astro/main.css: EACCES'
+      );
+      expect(consoleError).not.toHaveBeenCalled();
+
+      consoleError.mockRestore();
+      (fs.default.readFile as any).mockResolvedValue('test content');
+    });
+
+    it('should produce the same output regardless of the build directory', async () => {
+      const electronIntegration = integration();
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readFile as any).mockResolvedValue(
+        '<a href="/">Home</a><a href="/blog/">Blog</a>'
+      );
+
+      for (const root of ['/ci/build', '/home/user/app']) {
+        await buildHook({
+          dir: new URL(`file://${root}/dist/`),
+          routes: [
+            {
+              route: '/about',
+              component: '',
+              generate: vi.fn(),
+              params: [],
+              pattern: /\/about/,
+              segments: [[]],
+              type: 'page',
+              prerender: false,
+              distURL: new URL(`file://${root}/dist/about/index.html`),
+              fallbackRoutes: [],
+              isIndex: false,
+              redirect: undefined,
+            },
+          ],
+          logger: mockLogger,
+          pages: [{ pathname: 'about/' }],
+          cacheManifest: false,
+        });
+      }
+
+      const [first, second] = outputWrites(writeFileMock).map(
+        (call) => call[1]
+      );
+      expect(first).toBe(
+        '<a href="../index.html">Home</a><a href="../blog/index.html">Blog</a>'
+      );
+      expect(second).toBe(first);
+    });
+
+    it('should process every generated HTML file exactly once', async () => {
+      const electronIntegration = integration();
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readFile as any).mockResolvedValue('<a href="/">Home</a>');
+      (fs.default.readdir as any).mockResolvedValueOnce([
+        'index.html',
+        '404.html',
+        'blog/first-post/index.html',
+        'blog/second-post/index.html',
+        '_astro/index.123.js',
+      ]);
+
+      const route = (
+        path: string,
+        pattern: RegExp,
+        distURL?: string
+      ): RouteData => ({
+        route: path,
+        component: '',
+        generate: vi.fn(),
+        params: [],
+        pattern,
+        segments: [[]],
+        type: 'page',
+        prerender: true,
+        distURL: distURL ? new URL(distURL) : undefined,
+        fallbackRoutes: [],
+        isIndex: false,
+        redirect: undefined,
+      });
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [
+          route('/', /^\/$/, 'file:///mock/project/root/dist/index.html'),
+          route('/blog/[slug]', /^\/blog\/([^/]+?)\/?$/),
+          route('/404', /^\/404\/?$/),
+        ],
+        logger: mockLogger,
+        pages: [{ pathname: '' }],
+        cacheManifest: false,
+      });
+
+      const writtenFiles = outputWrites(writeFileMock).map((call) => call[0]);
+      expect(writtenFiles.sort()).toEqual(
+        [
+          '/mock/project/root/dist/404.html',
+          '/mock/project/root/dist/blog/first-post/index.html',
+          '/mock/project/root/dist/blog/second-post/index.html',
+          '/mock/project/root/dist/index.html',
+        ].sort()
+      );
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/mock/project/root/dist/blog/first-post/index.html',
+        '<a href="../../index.html">Home</a>'
+      );
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Processing blog/first-post/index.html (/blog/[slug])'
+      );
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Processing 404.html (/404)'
+      );
+    });
+
+    it('should warn about unresolved local URLs', async () => {
+      const electronIntegration = integration({
+        routing: 'protocol',
+        checkLinks: true,
+      });
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      (fs.default.writeFile as any) = vi.fn();
+      (fs.default.readFile as any).mockResolvedValue(
+        '<a href="/">Home</a>\n<a href="/missing/">Missing</a>'
+      );
+      (fs.default.readdir as any).mockResolvedValueOnce(['index.html']);
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [],
+        logger: mockLogger,
+        pages: [{ pathname: '' }],
+        cacheManifest: false,
+      });
+
+      expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'index.html:2: /missing/ does not resolve to a file in the build output'
+      );
+    });
+
+    it('should report root-absolute URLs left on file:// pages', async () => {
+      const electronIntegration = integration({
+        checkLinks: true,
+        rewrite: { url: (url) => (url === '/feed' ? url : undefined) },
+      });
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const written = new Map<string, string>();
+      (fs.default.writeFile as any) = vi.fn(async (file, content) => {
+        written.set(file, content);
+      });
+      (fs.default.readFile as any).mockImplementation(
+        async (file: string) =>
+          written.get(file) || '<a href="/">Home</a><a href="/feed">Feed</a>'
+      );
+      (fs.default.readdir as any).mockResolvedValueOnce([
+        'index.html',
+        'feed/index.html',
+      ]);
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [],
+        logger: mockLogger,
+        pages: [{ pathname: '' }],
+        cacheManifest: false,
+      });
+
+      // Only the URL the custom rule kept root-absolute is reported
+      expect(vi.mocked(mockLogger.warn).mock.calls).toEqual([
+        ['index.html:1: /feed does not resolve to a file in the build output'],
+        [
+          'feed/index.html:1: /feed does not resolve to a file in the build output',
+        ],
+      ]);
+    });
+
+    it('should fail the build on unresolved URLs with strictLinks', async () => {
+      const electronIntegration = integration({
+        routing: 'protocol',
+        strictLinks: true,
+      });
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      (fs.default.readFile as any).mockResolvedValue(
+        '<img src="/_astro/missing.png">'
+      );
+      (fs.default.readdir as any).mockResolvedValueOnce(['index.html']);
+
+      await expect(
+        buildHook({
+          dir: new URL('file:///mock/project/root/dist/'),
+          routes: [],
+          logger: mockLogger,
+          pages: [{ pathname: '' }],
+          cacheManifest: false,
+        })
+      ).rejects.toThrow('Found 1 unresolved local URL(s) in the build output');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'index.html:1: /_astro/missing.png does not resolve to a file in the build output'
+      );
+    });
+
+    it('should write a rewrite report when enabled', async () => {
+      const electronIntegration = integration({ report: 'reports/build.json' });
+      const configDoneHook = electronIntegration.hooks['astro:config:done'];
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!configDoneHook || !buildHook) throw new Error('Hooks not defined');
+
+      await configDoneHook({
+        config: mockConfig,
+        setAdapter: vi.fn(),
+        injectTypes: vi.fn(),
+        logger: mockLogger,
+        buildOutput: 'static',
+      } as any);
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readFile as any).mockResolvedValue(
+        '<a href="/about">About</a><div hydrate="/_astro/c.js"></div><script>import("/_astro/d.js")</script>'
+      );
+      (fs.default.readdir as any).mockResolvedValueOnce(['index.html']);
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [],
+        logger: mockLogger,
+        pages: [{ pathname: '' }],
+        cacheManifest: false,
+      });
+
+      const reportCall = writeFileMock.mock.calls.find(
+        (call) => call[0] === '/mock/project/root/reports/build.json'
+      );
+      expect(JSON.parse(reportCall?.[1]).files['index.html']).toEqual([
+        {
+          original: '/about',
+          rewritten: './about/index.html',
+          rule: 'page-link',
+        },
+        {
+          original: '/_astro/c.js',
+          rewritten: './_astro/c.js',
+          rule: 'hydrate',
+        },
+        {
+          original: '/_astro/d.js',
+          rewritten: './_astro/d.js',
+          rule: 'import',
+        },
+      ]);
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/mock/project/root/reports/build.txt',
+        expect.stringContaining('3 URLs rewritten in 1 files')
+      );
+    });
+
+    it('should reuse cached output for unchanged pages', async () => {
+      const electronIntegration = integration();
+      const configDoneHook = electronIntegration.hooks['astro:config:done'];
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!configDoneHook || !buildHook) throw new Error('Hooks not defined');
+
+      await configDoneHook({
+        config: mockConfig,
+        setAdapter: vi.fn(),
+        injectTypes: vi.fn(),
+        logger: mockLogger,
+        buildOutput: 'static',
+      } as any);
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      const cache = new Map<string, string>();
+      (fs.default.readFile as any).mockImplementation(async (file: string) => {
+        if (file.includes('.astro-electron')) {
+          if (!cache.has(file)) throw new Error('ENOENT');
+          return cache.get(file);
+        }
+        return '<a href="/about">About</a>';
+      });
+      writeFileMock.mockImplementation(async (file: string, data: string) => {
+        if (file.includes('.astro-electron')) cache.set(file, data);
+      });
+
+      const build = () =>
+        buildHook({
+          dir: new URL('file:///mock/project/root/dist/'),
+          routes: [],
+          logger: mockLogger,
+          pages: [{ pathname: '' }],
+          cacheManifest: false,
+        });
+
+      (fs.default.readdir as any).mockResolvedValueOnce(['index.html']);
+      await build();
+      expect([...cache.keys()]).toEqual([
+        expect.stringMatching(
+          /^\/mock\/project\/root\/node_modules\/\.astro-electron\/[0-9a-f]{64}\.json$/
+        ),
+      ]);
+
+      writeFileMock.mockClear();
+      (fs.default.readdir as any).mockResolvedValueOnce(['index.html']);
+      await build();
+
+      expect(writeFileMock.mock.calls).toEqual([
+        [
+          '/mock/project/root/dist/index.html',
+          '<a href="./about/index.html">About</a>',
+        ],
+      ]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Processed 1 HTML files in \d+ms \(1 unchanged since the last build\)$/
+        )
+      );
+
+      (fs.default.readFile as any).mockReset();
+    });
+
+    it('should not touch the cache when it is disabled', async () => {
+      const electronIntegration = integration({ cache: false });
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readFile as any).mockResolvedValue('<a href="/">Home</a>');
+      (fs.default.readdir as any).mockResolvedValueOnce(['index.html']);
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [],
+        logger: mockLogger,
+        pages: [{ pathname: '' }],
+        cacheManifest: false,
+      });
+
+      expect(writeFileMock.mock.calls).toEqual([
+        [
+          '/mock/project/root/dist/index.html',
+          '<a href="./index.html">Home</a>',
+        ],
+      ]);
+    });
+
+    it('should skip post-processing in protocol mode', async () => {
+      const electronIntegration = integration({ routing: 'protocol' });
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [
+          {
+            route: '/',
+            component: '',
+            generate: vi.fn(),
+            params: [],
+            pattern: /\//,
+            segments: [[]],
+            type: 'page',
+            prerender: false,
+            distURL: new URL('file:///mock/project/root/dist/index.html'),
+            fallbackRoutes: [],
+            isIndex: false,
+            redirect: undefined,
+          },
+        ],
+        logger: mockLogger,
+        pages: [{ pathname: 'index.html' }],
+        cacheManifest: false,
+      });
+
+      expect(writeFileMock).not.toHaveBeenCalled();
+    });
+
+    it('should rewrite root-absolute references in emitted CSS', async () => {
+      const electronIntegration = integration();
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readdir as any).mockResolvedValueOnce([
+        'index.html',
+        '_astro/index.123.css',
+        '_astro/untouched.456.css',
+      ]);
+      (fs.default.readFile as any).mockImplementation(async (file: string) =>
+        file.endsWith('index.123.css')
+          ? '@font-face{src:url(/fonts/x.woff2)}'
+          : 'body{color:red}'
+      );
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [],
+        logger: mockLogger,
+        pages: [{ pathname: 'index.html' }],
+        cacheManifest: false,
+      });
+
+      expect(writeFileMock).not.toHaveBeenCalledWith(
+        expect.stringContaining('untouched'),
+        expect.anything()
+      );
+      expect(writeFileMock).toHaveBeenCalledWith(
+        path.join('/mock/project/root/dist', '_astro/index.123.css'),
+        '@font-face{src:url(../fonts/x.woff2)}'
+      );
+    });
+
+    it('should apply the rewrite options to pages and stylesheets', async () => {
+      const electronIntegration = integration({
+        rewrite: {
+          attributes: ['data-src'],
+          assetExtensions: ['webp'],
+          url: (url, { file }) =>
+            url.startsWith('/cdn/')
+              ? `https://cdn.example.com/${file}`
+              : undefined,
+        },
+      });
+      const buildHook = electronIntegration.hooks['astro:build:done'];
+
+      if (!buildHook) throw new Error('Build hook not defined');
+
+      const fs = await import('fs/promises');
+      const writeFileMock = vi.fn();
+      (fs.default.writeFile as any) = writeFileMock;
+      (fs.default.readdir as any).mockResolvedValueOnce([
+        'index.html',
+        '_astro/index.123.css',
+      ]);
+      (fs.default.readFile as any).mockImplementation(async (file: string) =>
+        file.endsWith('.css')
+          ? 'a{background:url(/cdn/a.png)}'
+          : '<img data-src="/hero.webp"><img src="/cdn/b.png">'
+      );
+
+      await buildHook({
+        dir: new URL('file:///mock/project/root/dist/'),
+        routes: [],
+        logger: mockLogger,
+        pages: [{ pathname: 'index.html' }],
+        cacheManifest: false,
+      });
+
+      // Custom rules can't be cached, so only output files are written
+      expect(writeFileMock.mock.calls).toEqual([
+        [
+          '/mock/project/root/dist/index.html',
+          '<img data-src="./hero.webp"><img src="https://cdn.example.com/index.html">',
+        ],
+        [
+          path.join('/mock/project/root/dist', '_astro/index.123.css'),
+          'a{background:url(https://cdn.example.com/_astro/index.123.css)}',
+        ],
+      ]);
     });
 
     it('should handle _astro directory assets correctly', async () => {
@@ -401,7 +1409,7 @@ describe('astro-electron integration', () => {
           segments: [[]],
           type: 'page',
           prerender: false,
-          distURL: new URL('file:///path/to/dist/index.html'),
+          distURL: new URL('file:///mock/project/root/dist/index.html'),
           fallbackRoutes: [],
           isIndex: false,
           redirect: undefined,
@@ -430,9 +1438,9 @@ describe('astro-electron integration', () => {
       const content = htmlWriteCall?.[1];
 
       // Check that _astro paths are properly transformed
-      expect(content).toContain('src="./_astro//script.js"');
-      expect(content).toContain('href="./_astro//styles.css"');
-      expect(content).toContain('src="./_astro//image.png"');
+      expect(content).toContain('src="./_astro/script.js"');
+      expect(content).toContain('href="./_astro/styles.css"');
+      expect(content).toContain('src="./_astro/image.png"');
     });
   });
 
@@ -562,7 +1570,7 @@ describe('astro-electron integration', () => {
           segments: [[]],
           type: 'page',
           prerender: false,
-          distURL: new URL('file:///path/to/dist/index.html'),
+          distURL: new URL('file:///mock/project/root/dist/index.html'),
           fallbackRoutes: [],
           isIndex: false,
           redirect: undefined,
@@ -591,8 +1599,8 @@ describe('astro-electron integration', () => {
       const content = htmlWriteCall?.[1];
 
       // Check for hash routes in the transformed content
-      expect(content).toContain(`file://${mockCwd}/dist/index.html#/about`);
-      expect(content).toContain(`file://${mockCwd}/dist/index.html#/about`);
+      expect(content).not.toContain('href="/#/about"');
+      expect(content.match(/href="#\/about"/g)).toHaveLength(2);
     });
   });
 });
@@ -0,0 +1,191 @@
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import { generateIpcDeclaration } from '../src/declarations';
+import { defineIpcContract, type IpcRendererApi } from '../src/ipc';
+import { getDevState } from '../src/main/devtools';
+import { handleIpc, sendIpcEvent } from '../src/main/ipc';
+import { createIpcBridge, exposeIpc } from '../src/preload/bridge';
+
+vi.mock('electron', () => ({
+  contextBridge: {
+    exposeInMainWorld: vi.fn(),
+  },
+  ipcRenderer: {
+    invoke: vi.fn().mockResolvedValue('12:00:00'),
+    on: vi.fn(),
+    removeListener: vi.fn(),
+  },
+  ipcMain: {
+    handle: vi.fn(),
+    removeHandler: vi.fn(),
+  },
+  BrowserWindow: { getAllWindows: () => [] },
+}));
+
+const contract = defineIpcContract<{
+  invoke: {
+    getCurrentTime: () => string;
+    readFile: (path: string, encoding: 'utf-8') => Promise<string>;
+  };
+  events: { tick: [time: string]; 'menu:open': [id: number] };
+}>({
+  invoke: { getCurrentTime: true, readFile: true },
+  events: { tick: true, 'menu:open': true },
+});
+
+describe('IPC contract', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the declared channels', () => {
+    expect(contract.invoke).toEqual(['getCurrentTime', 'readFile']);
+    expect(contract.events).toEqual(['tick', 'menu:open']);
+  });
+
+  it('should reserve "on" for events', () => {
+    expect(() =>
+      defineIpcContract<{ invoke: { on: () => void } }>({
+        invoke: { on: true },
+        events: {},
+      })
+    ).toThrow('"on" is reserved');
+  });
+
+  it('should type the renderer API from the contract', () => {
+    type Api = IpcRendererApi<typeof contract>;
+
+    expectTypeOf<Api['getCurrentTime']>().toEqualTypeOf<
+      () => Promise<string>
+    >();
+    expectTypeOf<Api['readFile']>().parameters.toEqualTypeOf<
+      [path: string, encoding: 'utf-8']
+    >();
+    expectTypeOf<Api['readFile']>().returns.toEqualTypeOf<Promise<string>>();
+  });
+
+  it('should invoke channels through ipcRenderer', async () => {
+    const { ipcRenderer } = await import('electron');
+    const api = createIpcBridge(contract);
+
+    expect(await api.getCurrentTime()).toBe('12:00:00');
+    await api.readFile('notes.txt', 'utf-8');
+
+    expect(ipcRenderer.invoke).toHaveBeenCalledWith('getCurrentTime');
+    expect(ipcRenderer.invoke).toHaveBeenCalledWith(
+      'readFile',
+      'notes.txt',
+      'utf-8'
+    );
+  });
+
+  it('should subscribe to events without leaking the IPC event', async () => {
+    const { ipcRenderer } = await import('electron');
+    const api = createIpcBridge(contract);
+    const listener = vi.fn();
+
+    const unsubscribe = api.on('menu:open', listener);
+    const [[channel, handler]] = (ipcRenderer.on as any).mock.calls;
+    handler({ sender: {} }, 3);
+
+    expect(channel).toBe('menu:open');
+    expect(listener).toHaveBeenCalledWith(3);
+
+    unsubscribe();
+    expect(ipcRenderer.removeListener).toHaveBeenCalledWith(
+      'menu:open',
+      handler
+    );
+  });
+
+  it('should reject events outside the contract', () => {
+    const api = createIpcBridge(contract);
+    expect(() => (api.on as any)('other', vi.fn())).toThrow(
+      'Unknown IPC event channel "other"'
+    );
+  });
+
+  it('should expose the bridge as window.electronAPI', async () => {
+    const { contextBridge } = await import('electron');
+    exposeIpc(contract);
+
+    expect(contextBridge.exposeInMainWorld).toHaveBeenCalledWith(
+      'electronAPI',
+      expect.objectContaining({ getCurrentTime: expect.any(Function) })
+    );
+  });
+
+  it('should register and remove a handler per invoke channel', async () => {
+    const { ipcMain } = await import('electron');
+    const dispose = handleIpc(contract, {
+      getCurrentTime: () => '12:00:00',
+      readFile: async (_event, path) => `contents of ${path}`,
+    });
+
+    const handlers = new Map((ipcMain.handle as any).mock.calls);
+    expect([...handlers.keys()]).toEqual(['getCurrentTime', 'readFile']);
+    expect(
+      await (handlers.get('readFile') as Function)({}, 'a.txt', 'utf-8')
+    ).toBe('contents of a.txt');
+
+    dispose();
+    expect(ipcMain.removeHandler).toHaveBeenCalledWith('getCurrentTime');
+    expect(ipcMain.removeHandler).toHaveBeenCalledWith('readFile');
+  });
+
+  it('should record calls for the dev toolbar during astro dev', async () => {
+    vi.stubEnv('VITE_DEV_SERVER_URL', 'http://localhost:4321/');
+    vi.stubEnv('ASTRO_ELECTRON_DEVTOOLS', '/__astro-electron/devtools');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(undefined));
+    vi.useFakeTimers();
+
+    try {
+      const { ipcMain } = await import('electron');
+      handleIpc(contract, {
+        getCurrentTime: () => '12:00:00',
+        readFile: async () => {
+          throw new Error('ENOENT');
+        },
+      });
+      const handlers = new Map((ipcMain.handle as any).mock.calls);
+
+      await (handlers.get('getCurrentTime') as Function)({});
+      await expect(
+        (handlers.get('readFile') as Function)({}, 'a.txt', 'utf-8')
+      ).rejects.toThrow('ENOENT');
+
+      expect(getDevState().ipc).toEqual([
+        expect.objectContaining({ channel: 'getCurrentTime', args: [] }),
+        expect.objectContaining({
+          channel: 'readFile',
+          args: ['a.txt', 'utf-8'],
+          error: 'Error: ENOENT',
+        }),
+      ]);
+
+      // Changes are posted together
+      await vi.runAllTimersAsync();
+      expect(fetch).toHaveBeenCalledOnce();
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:4321/__astro-electron/devtools',
+        expect.objectContaining({ method: 'POST' })
+      );
+    } finally {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should send typed events to a renderer', () => {
+    const webContents = { send: vi.fn() };
+    sendIpcEvent(webContents as any, contract, 'tick', '12:00:01');
+
+    expect(webContents.send).toHaveBeenCalledWith('tick', '12:00:01');
+  });
+
+  it('should declare window.electronAPI from the contract module', () => {
+    expect(generateIpcDeclaration('/project', 'src/shared/ipc.mts')).toContain(
+      "import type contract from '../../../src/shared/ipc';"
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { findBrokenLinks, resolvesToOutput } from '../src/links';
+
+const outputFiles = new Set([
+  'index.html',
+  'about/index.html',
+  'contact.html',
+  '_astro/index.123.js',
+  '_astro/index.456.css',
+  'fonts/inter.woff2',
+]);
+
+describe('link checker', () => {
+  it('should resolve relative URLs from the file location', () => {
+    expect(resolvesToOutput('./_astro/index.123.js', '.', outputFiles)).toBe(
+      true
+    );
+    expect(resolvesToOutput('./_astro//index.123.js', '.', outputFiles)).toBe(
+      true
+    );
+    expect(resolvesToOutput('../index.html', 'about', outputFiles)).toBe(true);
+    expect(
+      resolvesToOutput('../fonts/inter.woff2?v=1', '_astro', outputFiles)
+    ).toBe(true);
+    expect(resolvesToOutput('./missing.js', '.', outputFiles)).toBe(false);
+    expect(resolvesToOutput('../../outside.html', 'about', outputFiles)).toBe(
+      false
+    );
+  });
+
+  it('should resolve root-absolute URLs with index resolution', () => {
+    expect(resolvesToOutput('/', 'about', outputFiles)).toBe(true);
+    expect(resolvesToOutput('/about/', '.', outputFiles)).toBe(true);
+    expect(resolvesToOutput('/about', '.', outputFiles)).toBe(true);
+    expect(resolvesToOutput('/contact', '.', outputFiles)).toBe(true);
+    expect(resolvesToOutput('/blog/', '.', outputFiles)).toBe(false);
+  });
+
+  it('should not resolve root-absolute URLs from file:// pages', () => {
+    expect(resolvesToOutput('/about/', '.', outputFiles, false)).toBe(false);
+    expect(resolvesToOutput('./about/', '.', outputFiles, false)).toBe(true);
+    expect(
+      findBrokenLinks(
+        'index.html',
+        '<a href="/contact">Contact</a>',
+        outputFiles,
+        undefined,
+        false
+      )
+    ).toEqual([{ file: 'index.html', line: 1, url: '/contact' }]);
+  });
+
+  it('should skip external URLs, anchors and hash routes', () => {
+    for (const url of ['https://astro.build', '#top', '#/about', 'mailto:a']) {
+      expect(resolvesToOutput(url, '.', outputFiles)).toBe(true);
+    }
+  });
+
+  it('should report broken links in HTML with line numbers', () => {
+    const html = [
+      '<html><head>',
+      '<link rel="stylesheet" href="./_astro/index.456.css">',
+      '<script src="./_astro/missing.js"></script>',
+      '</head><body>',
+      '<style>',
+      '  body { background: url(./bg.png) }',
+      '</style>',
+      '<a href="./about/index.html">About</a>',
+      '<a href="./blog/index.html">Blog</a>',
+      '</body></html>',
+    ].join('\n');
+
+    expect(findBrokenLinks('index.html', html, outputFiles)).toEqual([
+      { file: 'index.html', line: 3, url: './_astro/missing.js' },
+      { file: 'index.html', line: 6, url: './bg.png' },
+      { file: 'index.html', line: 9, url: './blog/index.html' },
+    ]);
+  });
+
+  it('should report broken links in CSS with line numbers', () => {
+    const css = `@font-face {\n  src: url(../fonts/inter.woff2);\n}\nbody {\n  background: url("../bg.png");\n}`;
+
+    expect(findBrokenLinks('_astro/index.456.css', css, outputFiles)).toEqual([
+      { file: '_astro/index.456.css', line: 5, url: '../bg.png' },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import type { ChildProcess } from 'child_process';
+import { createViteLogger, forwardElectronOutput } from '../src/dev/logs';
+import { PRELOAD_OUTPUT_PREFIX } from '../src/main/console';
+
+function createLogger() {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+}
+
+function createElectronApp() {
+  return Object.assign(new EventEmitter(), {
+    stdout: new PassThrough(),
+    stderr: new PassThrough(),
+  }) as unknown as ChildProcess & {
+    stdout: PassThrough;
+    stderr: PassThrough;
+  };
+}
+
+// Lets readline emit the lines written so far
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('electron logs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write Vite build output through the logger', () => {
+    const logger = createLogger();
+    const viteLogger = createViteLogger(logger);
+    const error = new Error('Build failed');
+
+    viteLogger.info('built in 12ms');
+    viteLogger.info('');
+    viteLogger.warnOnce('Large chunk');
+    viteLogger.warnOnce('Large chunk');
+    viteLogger.error('Build failed', { error });
+
+    expect(logger.info.mock.calls).toEqual([['built in 12ms']]);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(viteLogger.hasWarned).toBe(true);
+    expect(logger.error).toHaveBeenCalledWith('Build failed');
+    expect(viteLogger.hasErrorLogged(error)).toBe(true);
+  });
+
+  it('should forward main process output with levels', async () => {
+    const logger = createLogger();
+    const electronApp = createElectronApp();
+    forwardElectronOutput(electronApp, logger);
+
+    electronApp.stdout.write('Window ready\n\n');
+    electronApp.stderr.write('Deprecation warning\n');
+    electronApp.stderr.write('Uncaught Exception: TypeError: oops\n');
+    await flush();
+
+    expect(logger.info.mock.calls).toEqual([['Window ready']]);
+    expect(logger.warn).toHaveBeenCalledWith('Deprecation warning');
+    expect(logger.error).toHaveBeenCalledWith(
+      'Uncaught Exception: TypeError: oops'
+    );
+  });
+
+  it('should log forwarded preload output separately', async () => {
+    const logger = createLogger();
+    const preloadLogger = createLogger();
+    const electronApp = createElectronApp();
+    forwardElectronOutput(electronApp, logger, preloadLogger);
+
+    electronApp.stdout.write(`${PRELOAD_OUTPUT_PREFIX}Bridge exposed\n`);
+    electronApp.stderr.write(`${PRELOAD_OUTPUT_PREFIX}Error: no ipc\n`);
+    electronApp.stdout.write('Window ready\n');
+    await flush();
+
+    expect(preloadLogger.info).toHaveBeenCalledWith('Bridge exposed');
+    expect(preloadLogger.error).toHaveBeenCalledWith('Error: no ipc');
+    expect(logger.info.mock.calls).toEqual([['Window ready']]);
+  });
+
+  it('should report crashes and keep the dev server running', () => {
+    const exit = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => undefined) as any);
+    const logger = createLogger();
+    const electronApp = createElectronApp();
+    // Stands in for vite-plugin-electron's own exit listener
+    electronApp.once('exit', process.exit);
+    forwardElectronOutput(electronApp, logger);
+
+    electronApp.emit('exit', 1, null);
+
+    expect(exit).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringMatching(/Electron exited with code 1\. .*restart/)
+    );
+  });
+
+  it('should stop the dev server when the app quits', () => {
+    const exit = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => undefined) as any);
+    const logger = createLogger();
+    const electronApp = createElectronApp();
+    forwardElectronOutput(electronApp, logger);
+
+    electronApp.emit('exit', 0, null);
+
+    expect(exit).toHaveBeenCalledWith(0);
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../src/pool';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe('mapWithConcurrency', () => {
+  it('should never run more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency(
+      Array.from({ length: 20 }, (_, index) => index),
+      3,
+      async (item) => {
+        running++;
+        peak = Math.max(peak, running);
+        await tick();
+        running--;
+        return item * 2;
+      }
+    );
+
+    expect(peak).toBe(3);
+    expect(results).toEqual(
+      Array.from({ length: 20 }, (_, index) => index * 2)
+    );
+  });
+
+  it('should stop starting work after a failure', async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async (item) => {
+        started.push(item);
+        await tick();
+        if (item === 1) throw new Error('failed on 1');
+        return item;
+      })
+    ).rejects.toThrow('failed on 1');
+
+    expect(started.length).toBeLessThan(6);
+  });
+
+  it('should handle empty input', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
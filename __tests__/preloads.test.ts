@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPreloadBuilds,
+  getDefaultPreload,
+  getPreloadFileNames,
+  normalizePreloadInput,
+} from '../src/preloads';
+
+describe('preload scripts', () => {
+  it('should name a single preload script after its file', () => {
+    expect(normalizePreloadInput()).toEqual({
+      preload: 'electron/preload.ts',
+    });
+    expect(normalizePreloadInput('electron/bridge.mts')).toEqual({
+      bridge: 'electron/bridge.mts',
+    });
+  });
+
+  it('should reject names that cannot be file names', () => {
+    expect(() => normalizePreloadInput({})).toThrow('at least one entry');
+    expect(() =>
+      normalizePreloadInput({ '../viewer': 'electron/viewer.ts' })
+    ).toThrow('Invalid preload name "../viewer"');
+  });
+
+  it('should pick the extension from the format', () => {
+    const entries = { main: 'electron/main.ts', viewer: 'electron/viewer.ts' };
+
+    expect(getPreloadFileNames(entries)).toEqual({
+      main: 'main.cjs',
+      viewer: 'viewer.cjs',
+    });
+    expect(getPreloadFileNames(entries, 'esm')).toEqual({
+      main: 'main.mjs',
+      viewer: 'viewer.mjs',
+    });
+  });
+
+  it('should default to the preload entry, or the first one', () => {
+    expect(
+      getDefaultPreload({ viewer: 'viewer.cjs', preload: 'preload.cjs' })
+    ).toBe('preload.cjs');
+    expect(getDefaultPreload({ viewer: 'viewer.cjs' })).toBe('viewer.cjs');
+  });
+
+  it('should build each preload script on its own', () => {
+    const builds = createPreloadBuilds(
+      { main: 'electron/preload.ts', viewer: 'electron/viewer.ts' },
+      { build: { sourcemap: true } },
+      'esm'
+    );
+
+    expect(builds).toHaveLength(2);
+    expect(builds[1].vite?.build).toEqual(
+      expect.objectContaining({
+        sourcemap: true,
+        rollupOptions: {
+          input: { viewer: 'electron/viewer.ts' },
+          output: expect.objectContaining({
+            format: 'es',
+            inlineDynamicImports: true,
+            entryFileNames: 'viewer.mjs',
+          }),
+        },
+      })
+    );
+    expect(
+      createPreloadBuilds({ preload: 'electron/preload.ts' })[0].vite?.build
+        ?.rollupOptions?.output
+    ).toEqual(
+      expect.objectContaining({ format: 'cjs', entryFileNames: 'preload.cjs' })
+    );
+  });
+});
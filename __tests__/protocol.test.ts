@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  createProtocolHandler,
+  getMimeType,
+  resolveRequestPath,
+  serveAppProtocol,
+} from '../src/main/protocol';
+
+vi.mock('electron', () => ({
+  app: {
+    whenReady: vi.fn().mockResolvedValue(undefined),
+  },
+  protocol: {
+    registerSchemesAsPrivileged: vi.fn(),
+    handle: vi.fn(),
+  },
+}));
+
+describe('app protocol', () => {
+  let distDir: string;
+
+  beforeAll(async () => {
+    distDir = await fs.mkdtemp(path.join(os.tmpdir(), 'astro-electron-'));
+    await fs.mkdir(path.join(distDir, 'about'), { recursive: true });
+    await fs.mkdir(path.join(distDir, '_astro'), { recursive: true });
+    await fs.writeFile(path.join(distDir, 'index.html'), '<h1>Home</h1>');
+    await fs.writeFile(path.join(distDir, 'about', 'index.html'), 'About');
+    await fs.writeFile(path.join(distDir, 'contact.html'), 'Contact');
+    await fs.writeFile(path.join(distDir, '_astro', 'app.123.js'), 'let a;');
+  });
+
+  afterAll(async () => {
+    await fs.rm(distDir, { recursive: true, force: true });
+  });
+
+  it('should register a privileged standard scheme', async () => {
+    const { app, protocol } = await import('electron');
+
+    const url = serveAppProtocol({ directory: distDir });
+    await Promise.resolve();
+
+    expect(url).toBe('app://localhost/');
+    expect(protocol.registerSchemesAsPrivileged).toHaveBeenCalledWith([
+      expect.objectContaining({
+        scheme: 'app',
+        privileges: expect.objectContaining({ standard: true, secure: true }),
+      }),
+    ]);
+    expect(app.whenReady).toHaveBeenCalled();
+    expect(protocol.handle).toHaveBeenCalledWith('app', expect.any(Function));
+  });
+
+  it('should use a custom scheme and host', () => {
+    expect(
+      serveAppProtocol({ directory: distDir, scheme: 'myapp', host: 'ui' })
+    ).toBe('myapp://ui/');
+  });
+
+  it('should resolve index files and .html extensions', async () => {
+    expect(await resolveRequestPath(distDir, '/')).toBe(
+      path.join(distDir, 'index.html')
+    );
+    expect(await resolveRequestPath(distDir, '/about')).toBe(
+      path.join(distDir, 'about', 'index.html')
+    );
+    expect(await resolveRequestPath(distDir, '/about/')).toBe(
+      path.join(distDir, 'about', 'index.html')
+    );
+    expect(await resolveRequestPath(distDir, '/contact')).toBe(
+      path.join(distDir, 'contact.html')
+    );
+  });
+
+  it('should not resolve paths outside the directory', async () => {
+    expect(
+      await resolveRequestPath(distDir, '/%2e%2e/%2e%2e/etc/passwd')
+    ).toBeUndefined();
+  });
+
+  it('should serve files with the correct MIME type', async () => {
+    const handler = createProtocolHandler(distDir);
+
+    const page = await handler(new Request('app://localhost/about/'));
+    expect(page.status).toBe(200);
+    expect(page.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(await page.text()).toBe('About');
+
+    const script = await handler(
+      new Request('app://localhost/_astro/app.123.js')
+    );
+    expect(script.headers.get('Content-Type')).toBe(
+      'text/javascript; charset=utf-8'
+    );
+  });
+
+  it('should return 404 for missing files', async () => {
+    const handler = createProtocolHandler(distDir);
+
+    const response = await handler(new Request('app://localhost/missing'));
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe('Not Found');
+  });
+
+  it("should serve Astro's 404 page when present", async () => {
+    await fs.writeFile(path.join(distDir, '404.html'), 'Custom 404');
+    const handler = createProtocolHandler(distDir);
+
+    const response = await handler(new Request('app://localhost/missing'));
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe('Custom 404');
+  });
+
+  it('should fall back to application/octet-stream', () => {
+    expect(getMimeType('file.unknown')).toBe('application/octet-stream');
+    expect(getMimeType('font.WOFF2')).toBe('font/woff2');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getWindow, openWindow } from '../src/main/registry';
+
+vi.mock('electron', () => ({
+  BrowserWindow: vi.fn().mockImplementation((options) => {
+    const listeners = new Map<string, () => void>();
+    return {
+      options,
+      destroyed: false,
+      loadURL: vi.fn().mockResolvedValue(undefined),
+      loadFile: vi.fn().mockResolvedValue(undefined),
+      webContents: { setWindowOpenHandler: vi.fn(), on: vi.fn() },
+      on: vi.fn((event: string, listener: () => void) =>
+        listeners.set(event, listener)
+      ),
+      emit: (event: string) => listeners.get(event)?.(),
+      isDestroyed() {
+        return this.destroyed;
+      },
+      isMinimized: vi.fn().mockReturnValue(false),
+      restore: vi.fn(),
+      focus: vi.fn(),
+    };
+  }),
+  shell: { openExternal: vi.fn() },
+}));
+
+describe('window registry', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_DEV_SERVER_URL', 'http://localhost:4321/');
+    vi.stubEnv(
+      'ASTRO_ELECTRON_WINDOWS',
+      JSON.stringify({
+        main: { route: '/', width: 1000, height: 800 },
+        preferences: {
+          route: '/preferences/',
+          width: 400,
+          preload: 'preferences.mjs',
+          options: { resizable: false, webPreferences: { spellcheck: false } },
+        },
+        about: { route: '/about/', options: { width: 640, height: 480 } },
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should open a configured window on its route', () => {
+    const win = openWindow('preferences') as any;
+
+    expect(win.options).toEqual(
+      expect.objectContaining({ width: 400, resizable: false })
+    );
+    expect(win.options.webPreferences).toEqual(
+      expect.objectContaining({
+        spellcheck: false,
+        preload: expect.stringMatching(/preferences\.mjs$/),
+        contextIsolation: true,
+      })
+    );
+    expect(win.loadURL).toHaveBeenCalledWith(
+      'http://localhost:4321/preferences/'
+    );
+  });
+
+  it('should keep the size from options when none is configured', () => {
+    const win = openWindow('about') as any;
+
+    expect(win.options).toEqual(
+      expect.objectContaining({ width: 640, height: 480 })
+    );
+  });
+
+  it('should focus a window that is already open', () => {
+    const first = openWindow('main') as any;
+    const second = openWindow('main', { width: 200 }) as any;
+
+    expect(second).toBe(first);
+    expect(first.focus).toHaveBeenCalled();
+    expect(getWindow('main')).toBe(first);
+
+    first.emit('closed');
+    expect(getWindow('main')).toBeUndefined();
+    expect(openWindow('main', { width: 200 })).not.toBe(first);
+  });
+
+  it('should reject unknown windows', () => {
+    expect(() => openWindow('inspector')).toThrow('Unknown window "inspector"');
+  });
+});
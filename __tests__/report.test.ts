@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatReportJson,
+  formatReportSummary,
+  type RewriteReport,
+} from '../src/report';
+
+const report: RewriteReport = new Map([
+  [
+    'index.html',
+    [
+      {
+        original: '/about',
+        rewritten: './about/index.html',
+        rule: 'page-link',
+      },
+      {
+        original: '/_astro/a.js',
+        rewritten: './_astro/a.js',
+        rule: '_astro',
+      },
+    ],
+  ],
+  [
+    '_astro/index.css',
+    [
+      {
+        original: '/fonts/a.woff2',
+        rewritten: '../fonts/a.woff2',
+        rule: 'stylesheet',
+      },
+    ],
+  ],
+]);
+
+describe('rewrite report', () => {
+  it('should list every rewrite per file with rule totals', () => {
+    expect(JSON.parse(formatReportJson(report))).toEqual({
+      totals: { _astro: 1, 'page-link': 1, stylesheet: 1 },
+      files: {
+        '_astro/index.css': [
+          {
+            original: '/fonts/a.woff2',
+            rewritten: '../fonts/a.woff2',
+            rule: 'stylesheet',
+          },
+        ],
+        'index.html': [
+          {
+            original: '/about',
+            rewritten: './about/index.html',
+            rule: 'page-link',
+          },
+          {
+            original: '/_astro/a.js',
+            rewritten: './_astro/a.js',
+            rule: '_astro',
+          },
+        ],
+      },
+    });
+  });
+
+  it('should sort files so reports can be diffed', () => {
+    const json = formatReportJson(report);
+    expect(json.indexOf('_astro/index.css')).toBeLessThan(
+      json.indexOf('index.html')
+    );
+  });
+
+  it('should format a human-readable summary', () => {
+    expect(formatReportSummary(report)).toBe(
+      [
+        '3 URLs rewritten in 2 files',
+        '  _astro: 1',
+        '  page-link: 1',
+        '  stylesheet: 1',
+        '',
+        '_astro/index.css (1)',
+        '  [stylesheet] /fonts/a.woff2 -> ../fonts/a.woff2',
+        '',
+        'index.html (2)',
+        '  [page-link] /about -> ./about/index.html',
+        '  [_astro] /_astro/a.js -> ./_astro/a.js',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { RouteData } from 'astro';
+import { collectPages, findPageRoute, getPagePathname } from '../src/routes';
+
+const distDir = '/project/dist';
+
+function createRoute(
+  route: string,
+  pattern: RegExp,
+  distURL?: string
+): RouteData {
+  return {
+    route,
+    component: '',
+    generate: vi.fn(),
+    params: [],
+    pattern,
+    segments: [[]],
+    type: 'page',
+    prerender: true,
+    distURL: distURL ? new URL(`file://${distDir}/${distURL}`) : undefined,
+    fallbackRoutes: [],
+    isIndex: false,
+    redirect: undefined,
+  };
+}
+
+describe('routes', () => {
+  it('should derive the served pathname of a page', () => {
+    expect(getPagePathname('index.html')).toBe('/');
+    expect(getPagePathname('blog/index.html')).toBe('/blog/');
+    expect(getPagePathname('about.html')).toBe('/about');
+  });
+
+  it('should prefer an exact distURL match', () => {
+    const catchAll = createRoute('/[...slug]', /^\/(.*?)\/?$/);
+    const about = createRoute('/about', /^\/about\/?$/, 'about/index.html');
+
+    expect(findPageRoute('about/index.html', [catchAll, about], distDir)).toBe(
+      about
+    );
+  });
+
+  it('should match dynamic routes by pattern', () => {
+    const post = createRoute('/blog/[slug]', /^\/blog\/([^/]+?)\/?$/);
+    const noSlash = createRoute('/docs/[page]', /^\/docs\/([^/]+?)$/);
+
+    expect(findPageRoute('blog/hello/index.html', [post], distDir)).toBe(post);
+    expect(findPageRoute('docs/intro/index.html', [noSlash], distDir)).toBe(
+      noSlash
+    );
+    expect(findPageRoute('other.html', [post], distDir)).toBeUndefined();
+  });
+
+  it('should merge files on disk with route distURLs', () => {
+    const home = createRoute('/', /^\/$/, 'index.html');
+    const pages = collectPages(['index.html', '404.html'], [home], distDir);
+
+    expect([...pages.keys()]).toEqual(['404.html', 'index.html']);
+    expect(pages.get('index.html')).toBe(home);
+    expect(pages.get('404.html')).toBeUndefined();
+  });
+});
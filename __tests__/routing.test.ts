@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectHashRouting,
+  matchRoute,
+  resolveRoutingMode,
+} from '../src/routing';
+
+describe('routing', () => {
+  it('should match pathnames against globs', () => {
+    expect(matchRoute('/blog/', '/blog/**')).toBe(true);
+    expect(matchRoute('/blog/post/', '/blog/**')).toBe(true);
+    expect(matchRoute('/blog/a/b/', '/blog/**')).toBe(true);
+    expect(matchRoute('/blog/post/', '/blog/*')).toBe(true);
+    expect(matchRoute('/blog/a/b/', '/blog/*')).toBe(false);
+    expect(matchRoute('/blogs/', '/blog/**')).toBe(false);
+    expect(matchRoute('/about', '/about/')).toBe(true);
+    expect(matchRoute('/', '/**')).toBe(true);
+  });
+
+  it('should use the first matching override', () => {
+    const overrides = {
+      '/app/settings': 'file',
+      '/app/**': 'hash',
+    } as const;
+
+    expect(resolveRoutingMode('/app/', 'file', overrides)).toBe('hash');
+    expect(resolveRoutingMode('/app/settings/', 'file', overrides)).toBe(
+      'file'
+    );
+    expect(resolveRoutingMode('/docs/', 'auto', overrides)).toBe('auto');
+  });
+
+  it('should explain why the heuristic picked hash routing', () => {
+    expect(detectHashRouting('createHashRouter()', 'index.html')).toBe(
+      'found "createHashRouter" in the page'
+    );
+    expect(detectHashRouting('', 'router/index.html')).toBe(
+      'file path "router/index.html" contains "router"'
+    );
+    expect(detectHashRouting('<p>Hello</p>', 'index.html')).toBeUndefined();
+  });
+});
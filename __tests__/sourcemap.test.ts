@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { transformWithEsbuild } from 'vite';
+import { resolveSourcemap } from '../src/sourcemap';
+import { createRequire } from 'module';
+import {
+  installSourceMapSupport,
+  loadSourceMaps,
+  mapPosition,
+} from '../src/main/stack';
+
+const SOURCE = `interface Options {
+  name: string;
+}
+
+export function fail(options: Options) {
+  throw new Error(options.name);
+}
+`;
+
+const CHUNK_SOURCE = `type Reason = string;
+
+async function fail(reason: Reason): Promise<never> {
+  await null;
+  throw new Error(reason);
+}
+
+export async function run() {
+  await fail('chunk');
+}
+`;
+
+// Generated position of `throw`, 1-based like a stack frame
+function findThrow(code: string): [number, number] {
+  const lines = code.split('\n');
+  const line = lines.findIndex((text) => text.includes('throw'));
+  return [line + 1, lines[line].indexOf('throw') + 1];
+}
+
+// Built up so Vite doesn't read the comment as this file's own map
+function linkMap(code: string, url: string): string {
+  return `${code}//# ${'sourceMappingURL'}=${url}\n`;
+}
+
+describe('source maps', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'astro-electron-maps-'));
+    await fs.mkdir(path.join(root, 'dist-electron'));
+
+    const { code, map } = await transformWithEsbuild(SOURCE, 'main.ts', {
+      sourcemap: true,
+    });
+    const sourceMap = JSON.stringify({ ...map, sources: ['../main.ts'] });
+    await fs.writeFile(
+      path.join(root, 'dist-electron', 'main.js'),
+      linkMap(code, 'main.js.map')
+    );
+    await fs.writeFile(
+      path.join(root, 'dist-electron', 'main.js.map'),
+      sourceMap
+    );
+    await fs.writeFile(
+      path.join(root, 'dist-electron', 'inline.js'),
+      linkMap(
+        code,
+        `data:application/json;base64,${Buffer.from(sourceMap).toString(
+          'base64'
+        )}`
+      )
+    );
+    await fs.writeFile(path.join(root, 'dist-electron', 'plain.js'), code);
+    loadSourceMaps(path.join(root, 'dist-electron'));
+
+    // Loaded after source map support is installed
+    const chunk = await transformWithEsbuild(CHUNK_SOURCE, 'chunk.ts', {
+      format: 'cjs',
+      sourcemap: true,
+    });
+    await fs.writeFile(
+      path.join(root, 'dist-electron', 'chunk.cjs'),
+      linkMap(
+        chunk.code,
+        `data:application/json;base64,${Buffer.from(
+          JSON.stringify({ ...chunk.map, sources: ['../chunk.ts'] })
+        ).toString('base64')}`
+      )
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should inline maps in dev and emit files for builds', () => {
+    expect(resolveSourcemap(undefined, true)).toBe('inline');
+    expect(resolveSourcemap(undefined, false)).toBe(true);
+    expect(resolveSourcemap(false, false)).toBe(false);
+    expect(resolveSourcemap('hidden', true)).toBe('hidden');
+  });
+
+  it('should map positions through linked and inline maps', async () => {
+    const code = await fs.readFile(
+      path.join(root, 'dist-electron', 'plain.js'),
+      'utf-8'
+    );
+    const [line, column] = findThrow(code);
+    const expected = `${path.join(root, 'main.ts')}:6:3`;
+
+    for (const file of ['main.js', 'inline.js']) {
+      const fileName = path.join(root, 'dist-electron', file);
+      expect(mapPosition(fileName, line, column)).toBe(expected);
+    }
+  });
+
+  it('should leave files without a map alone', () => {
+    expect(
+      mapPosition(path.join(root, 'dist-electron', 'plain.js'), 1, 1)
+    ).toBeUndefined();
+    expect(mapPosition(path.join(root, 'missing.js'), 1, 1)).toBeUndefined();
+    expect(mapPosition('node:internal/main', 1, 1)).toBeUndefined();
+  });
+
+  it('should map files loaded later and keep async frames', async () => {
+    const uninstall = installSourceMapSupport();
+    try {
+      const { run } = createRequire(import.meta.url)(
+        path.join(root, 'dist-electron', 'chunk.cjs')
+      );
+      const error: Error = await run().catch((error: Error) => error);
+      const chunkSource = path.join(root, 'chunk.ts');
+
+      expect(error.stack).toContain(`at fail (${chunkSource}:5:9)`);
+      expect(error.stack).toContain(`at async run (${chunkSource}:9:3)`);
+    } finally {
+      uninstall();
+    }
+  });
+
+  it('should restore the previous stack formatting', () => {
+    const previous = Error.prepareStackTrace;
+    const uninstall = installSourceMapSupport();
+
+    expect(Error.prepareStackTrace).not.toBe(previous);
+    expect(new Error('boom').stack).toMatch(/^Error: boom\n {4}at /);
+
+    uninstall();
+    expect(Error.prepareStackTrace).toBe(previous);
+  });
+});
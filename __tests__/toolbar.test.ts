@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Readable } from 'stream';
+import { createDevStateMiddleware } from '../src/dev/toolbar';
+import { renderDevState } from '../src/toolbar/app';
+import { TOOLBAR_EVENTS, type ElectronDevState } from '../src/toolbar/state';
+
+const state: ElectronDevState = {
+  versions: { electron: '33.2.0', chrome: '130.0.0', node: '20.18.0' },
+  windows: [
+    {
+      id: 1,
+      name: 'preferences',
+      title: 'Preferences',
+      url: 'http://localhost:4321/preferences/',
+    },
+  ],
+  ipc: [
+    {
+      channel: 'save',
+      args: [{ title: '<b>draft</b>' }],
+      duration: 12.34,
+      time: 0,
+    },
+  ],
+};
+
+function createToolbar() {
+  const listeners = new Map<string, (data: unknown) => void>();
+  return {
+    send: vi.fn(),
+    on: vi.fn((event: string, callback: (data: unknown) => void) =>
+      listeners.set(event, callback)
+    ),
+    emit: (event: string) => listeners.get(event)?.({}),
+  };
+}
+
+describe('dev toolbar', () => {
+  it('should relay main process state to the toolbar app', async () => {
+    const toolbar = createToolbar();
+    const middleware = createDevStateMiddleware({
+      toolbar,
+      restart: vi.fn(),
+      logger: { error: vi.fn() } as any,
+    });
+
+    toolbar.emit(TOOLBAR_EVENTS.requestState);
+    expect(toolbar.send).toHaveBeenLastCalledWith(TOOLBAR_EVENTS.state, null);
+
+    const response = { statusCode: 0, end: vi.fn() };
+    await middleware(
+      Object.assign(Readable.from([JSON.stringify(state)]), {
+        method: 'POST',
+      }) as any,
+      response as any,
+      vi.fn()
+    );
+
+    expect(response.statusCode).toBe(204);
+    expect(toolbar.send).toHaveBeenLastCalledWith(TOOLBAR_EVENTS.state, state);
+
+    toolbar.emit(TOOLBAR_EVENTS.requestState);
+    expect(toolbar.send).toHaveBeenLastCalledWith(TOOLBAR_EVENTS.state, state);
+  });
+
+  it('should restart Electron when asked', () => {
+    const toolbar = createToolbar();
+    const restart = vi.fn().mockResolvedValue(undefined);
+    createDevStateMiddleware({
+      toolbar,
+      restart,
+      logger: { error: vi.fn() } as any,
+    });
+
+    toolbar.emit(TOOLBAR_EVENTS.restart);
+
+    expect(restart).toHaveBeenCalledOnce();
+    expect(toolbar.send).toHaveBeenLastCalledWith(TOOLBAR_EVENTS.state, null);
+  });
+
+  it('should render windows, the preload API and IPC calls', () => {
+    const html = renderDevState(state, ['getCurrentTime', 'on']);
+
+    expect(html).toContain('Electron 33.2.0');
+    expect(html).toContain('<strong>preferences</strong>');
+    expect(html).toContain('<code>/preferences/</code>');
+    expect(html).toContain('<code>getCurrentTime</code> <code>on</code>');
+    expect(html).toContain('12.3ms');
+    // Payloads are escaped
+    expect(html).not.toContain('<b>draft</b>');
+  });
+
+  it('should explain what is missing before the main process reports', () => {
+    expect(renderDevState(null, undefined)).toContain(
+      'No <code>window.electronAPI</code>'
+    );
+    expect(renderDevState(null, [])).toContain('Waiting for the main process');
+  });
+});
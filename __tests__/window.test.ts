@@ -0,0 +1,206 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  createAppWindow,
+  getPreloadPath,
+  resolveRouteFile,
+} from '../src/main/window';
+
+vi.mock('electron', () => ({
+  BrowserWindow: vi.fn().mockImplementation((options) => ({
+    options,
+    loadURL: vi.fn().mockResolvedValue(undefined),
+    loadFile: vi.fn().mockResolvedValue(undefined),
+    webContents: {
+      setWindowOpenHandler: vi.fn(),
+      reloadIgnoringCache: vi.fn(),
+      on: vi.fn(),
+    },
+    on: vi.fn(),
+  })),
+  shell: { openExternal: vi.fn() },
+}));
+
+describe('createAppWindow', () => {
+  let appRoot: string;
+  let rendererDir: string;
+
+  beforeAll(async () => {
+    appRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'astro-electron-'));
+    rendererDir = path.join(appRoot, 'build');
+    await fs.mkdir(path.join(rendererDir, 'settings'), { recursive: true });
+    await fs.writeFile(path.join(rendererDir, 'index.html'), '');
+    await fs.writeFile(path.join(rendererDir, 'settings', 'index.html'), '');
+    await fs.writeFile(path.join(rendererDir, 'about.html'), '');
+  });
+
+  afterAll(async () => {
+    await fs.rm(appRoot, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should resolve routes for every build format', () => {
+    expect(resolveRouteFile(rendererDir, '/')).toBe(
+      path.join(rendererDir, 'index.html')
+    );
+    expect(resolveRouteFile(rendererDir, '/settings/')).toBe(
+      path.join(rendererDir, 'settings', 'index.html')
+    );
+    expect(resolveRouteFile(rendererDir, '/about')).toBe(
+      path.join(rendererDir, 'about.html')
+    );
+  });
+
+  it('should apply secure defaults and merge webPreferences', () => {
+    const win = createAppWindow({
+      width: 800,
+      webPreferences: { spellcheck: false },
+    }) as any;
+
+    expect(win.options.width).toBe(800);
+    expect(win.options.webPreferences).toEqual(
+      expect.objectContaining({
+        contextIsolation: true,
+        nodeIntegration: false,
+        webSecurity: true,
+        spellcheck: false,
+        preload: expect.stringMatching(/preload\.cjs$/),
+        sandbox: true,
+      })
+    );
+    expect(
+      (
+        createAppWindow({
+          webPreferences: { preload: '/app/preload.mjs' },
+        }) as any
+      ).options.webPreferences.sandbox
+    ).toBe(false);
+  });
+
+  it('should load routes from the dev server', () => {
+    vi.stubEnv('VITE_DEV_SERVER_URL', 'http://localhost:4321');
+    const win = createAppWindow({ route: '/settings' }) as any;
+
+    expect(win.loadURL).toHaveBeenCalledWith('http://localhost:4321/settings');
+  });
+
+  it('should load built routes from the renderer directory', () => {
+    vi.stubEnv('VITE_DEV_SERVER_URL', '');
+    vi.stubEnv('APP_ROOT', appRoot);
+    vi.stubEnv('ASTRO_ELECTRON_RENDERER_DIR', 'build');
+
+    const win = createAppWindow({ route: '/settings?tab=general' }) as any;
+    expect(win.loadFile).toHaveBeenCalledWith(
+      path.join(rendererDir, 'settings', 'index.html'),
+      { query: { tab: 'general' }, hash: undefined }
+    );
+
+    const hashWin = createAppWindow({ route: '/#/settings' }) as any;
+    expect(hashWin.loadFile).toHaveBeenCalledWith(
+      path.join(rendererDir, 'index.html'),
+      { query: {}, hash: '/settings' }
+    );
+  });
+
+  it('should load built routes through a custom protocol', () => {
+    vi.stubEnv('VITE_DEV_SERVER_URL', '');
+    const win = createAppWindow({
+      route: '/about',
+      baseUrl: 'app://localhost/',
+    }) as any;
+
+    expect(win.loadURL).toHaveBeenCalledWith('app://localhost/about');
+  });
+
+  it('should reload windows when their preload script is rebuilt', async () => {
+    vi.stubEnv('VITE_DEV_SERVER_URL', 'http://localhost:4321');
+    const preload = path.join(appRoot, 'viewer.cjs');
+    await fs.writeFile(preload, '');
+
+    const win = createAppWindow({ webPreferences: { preload } }) as any;
+    const other = createAppWindow({
+      webPreferences: { preload: path.join(appRoot, 'other.cjs') },
+    }) as any;
+    await fs.writeFile(preload, 'rebuilt');
+
+    await vi.waitFor(() =>
+      expect(win.webContents.reloadIgnoringCache).toHaveBeenCalled()
+    );
+    expect(other.webContents.reloadIgnoringCache).not.toHaveBeenCalled();
+
+    // Stop watching once the window is closed
+    const [[, onClosed]] = win.on.mock.calls.filter(
+      ([event]: [string]) => event === 'closed'
+    );
+    onClosed();
+  });
+
+  it('should write preload console output to the terminal', () => {
+    vi.stubEnv('VITE_DEV_SERVER_URL', 'http://localhost:4321');
+    const write = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const preload = path.join(appRoot, 'preload.cjs');
+
+    const win = createAppWindow({ webPreferences: { preload } }) as any;
+    const [[, onConsoleMessage]] = win.webContents.on.mock.calls.filter(
+      ([event]: [string]) => event === 'console-message'
+    );
+    onConsoleMessage({}, 1, 'from preload', 1, preload);
+    onConsoleMessage({}, 1, 'from page', 1, 'http://localhost:4321/');
+
+    expect(write).toHaveBeenCalledOnce();
+    expect(write).toHaveBeenCalledWith(
+      '[astro-electron:preload] from preload\n'
+    );
+    write.mockRestore();
+  });
+
+  it('should open external links in the browser', async () => {
+    const { shell } = await import('electron');
+    const win = createAppWindow() as any;
+    const [[handler]] = win.webContents.setWindowOpenHandler.mock.calls;
+
+    expect(handler({ url: 'https://astro.build' })).toEqual({
+      action: 'deny',
+    });
+    expect(shell.openExternal).toHaveBeenCalledWith('https://astro.build');
+  });
+});
+
+describe('getPreloadPath', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should resolve named preload scripts', () => {
+    vi.stubEnv(
+      'ASTRO_ELECTRON_PRELOADS',
+      JSON.stringify({ main: 'main.js', viewer: 'viewer.js' })
+    );
+
+    vi.stubEnv('ASTRO_ELECTRON_PRELOAD', 'main.js');
+
+    expect(getPreloadPath('viewer')).toMatch(/[/\\]viewer\.js$/);
+    expect(getPreloadPath()).toMatch(/[/\\]main\.js$/);
+    // Plain file names still work
+    expect(getPreloadPath('legacy.cjs')).toMatch(/[/\\]legacy\.cjs$/);
+  });
+
+  it('should default to preload.cjs without the integration', () => {
+    expect(getPreloadPath()).toMatch(/[/\\]preload\.cjs$/);
+  });
+});
@@ -12,6 +12,11 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const TEMPLATE_PATH = path.join(__dirname, '..', '..', 'templates');
 const BASE_TEMPLATE_PATH = path.join(TEMPLATE_PATH, 'base');
 const ELECTRON_TEMPLATE_PATH = path.join(TEMPLATE_PATH, 'base', 'electron');
+const LAUNCH_CONFIG_TEMPLATE_PATH = path.join(
+  BASE_TEMPLATE_PATH,
+  '.vscode',
+  'launch.json'
+);
 const ASTRO_EXTENSIONS = ['.mjs', '.js', '.ts', '.cjs', '.mts', '.cts'];
 
 type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
@@ -512,8 +517,64 @@ async function copyElectronFiles(targetPath: string) {
   }
 }
 
-export async function main() {
+async function hasLaunchConfig(targetPath: string): Promise<boolean> {
   try {
+    await fs.access(path.join(targetPath, '.vscode', 'launch.json'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Writes the template's VS Code configurations, which debug the main process
+// and the renderer together. An existing launch.json is only replaced after
+// confirmation
+async function writeLaunchConfig(targetPath: string): Promise<void> {
+  if (await hasLaunchConfig(targetPath)) {
+    const overwrite = await confirm({
+      message: '.vscode/launch.json already exists. Overwrite?',
+      default: false,
+    });
+
+    if (!overwrite) {
+      console.log('Skipping VS Code launch configuration');
+      return;
+    }
+  }
+
+  try {
+    const vscodeDir = path.join(targetPath, '.vscode');
+    await fs.mkdir(vscodeDir, { recursive: true });
+    await fs.copyFile(
+      LAUNCH_CONFIG_TEMPLATE_PATH,
+      path.join(vscodeDir, 'launch.json')
+    );
+    console.log('✨ Added VS Code debug configurations to .vscode/launch.json');
+  } catch (error) {
+    console.error(
+      'Error writing launch configuration:',
+      error instanceof Error ? error.message : String(error)
+    );
+    throw error;
+  }
+}
+
+export async function main(args: string[] = process.argv.slice(2)) {
+  try {
+    // `astro-electron-ts vscode` regenerates the debug configurations
+    if (args[0] === 'vscode') {
+      try {
+        await writeLaunchConfig(process.cwd());
+      } catch (error) {
+        if (isExitPromptError(error)) {
+          console.log('\nOperation cancelled');
+          return;
+        }
+        throw error;
+      }
+      return;
+    }
+
     const defaultPackageManager = await detectPackageManager();
     let packageManager = defaultPackageManager;
 
@@ -602,6 +663,11 @@ export async function main() {
         await copyElectronFiles(currentDir);
       }
 
+      // Keep a launch.json the project already has
+      if (!(await hasLaunchConfig(currentDir))) {
+        await writeLaunchConfig(currentDir);
+      }
+
       // Add integration
       await addElectronIntegration();
 
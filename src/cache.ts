@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { RewriteReportEntry } from './report.ts';
+
+export const DEFAULT_CACHE_DIR = 'node_modules/.astro-electron';
+
+// Bump whenever the rewrite rules change so stale output is never reused
+const CACHE_VERSION = 1;
+
+export interface CachedPage {
+  output: string;
+  records: RewriteReportEntry[];
+}
+
+export interface PageCache {
+  // Key for a page's content plus everything else its rewrite depends on
+  key: (content: string, ...inputs: unknown[]) => string;
+  get: (key: string) => Promise<CachedPage | undefined>;
+  set: (key: string, page: CachedPage) => Promise<void>;
+  // Removes entries that weren't used by the current build
+  prune: () => Promise<void>;
+}
+
+/**
+ * Content-addressed cache of rewritten pages. Entries are stored one file per
+ * key, so only the pages being processed are ever held in memory.
+ */
+export function createPageCache(directory: string): PageCache {
+  const used = new Set<string>();
+  let ready: Promise<unknown> | undefined;
+
+  const entryPath = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    key: (content, ...inputs) =>
+      createHash('sha256')
+        .update(JSON.stringify([CACHE_VERSION, ...inputs]))
+        .update('\0')
+        .update(content)
+        .digest('hex'),
+
+    get: async (key) => {
+      used.add(key);
+      try {
+        const page = JSON.parse(await fs.readFile(entryPath(key), 'utf-8'));
+        return typeof page?.output === 'string' && Array.isArray(page.records)
+          ? (page as CachedPage)
+          : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+
+    set: async (key, page) => {
+      used.add(key);
+      ready ||= fs.mkdir(directory, { recursive: true });
+      await ready;
+      await fs.writeFile(entryPath(key), JSON.stringify(page));
+    },
+
+    prune: async () => {
+      let files: string[];
+      try {
+        files = await fs.readdir(directory);
+      } catch {
+        return;
+      }
+
+      const stale = files.filter(
+        (file) =>
+          file.endsWith('.json') && !used.has(file.slice(0, -'.json'.length))
+      );
+      for (const file of stale) {
+        await fs.rm(path.join(directory, file), { force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { RUNTIME_CONFIG_GLOBAL, type RuntimeConfig } from '../runtime.ts';
+import { resolveRouteUrl } from './navigation.ts';
+
+export { resolveRouteUrl } from './navigation.ts';
+
+// `window.electronAPI` as typed by the project, see the `ipc` option
+type ElectronAPIOf<W> = W extends { electronAPI: infer API } ? API : unknown;
+
+function getRuntimeConfig(): RuntimeConfig {
+  const config = (window as unknown as Record<string, unknown>)[
+    RUNTIME_CONFIG_GLOBAL
+  ] as RuntimeConfig | undefined;
+
+  // Guessing the build format would send file:// pages to missing files
+  if (!config) {
+    throw new Error(
+      'navigate() needs the runtime config script. Enable the `clientConfig` option of the astro-electron-ts integration, and allow the inline script if the page has a Content Security Policy.'
+    );
+  }
+
+  return config;
+}
+
+// Whether the page is running inside Electron rather than a plain browser
+export function isElectron(): boolean {
+  return (
+    typeof navigator !== 'undefined' && /\bElectron\//.test(navigator.userAgent)
+  );
+}
+
+/**
+ * Returns `window.electronAPI`, throwing a descriptive error when the page
+ * runs somewhere the preload script (or browser mode) hasn't defined it.
+ */
+export function getElectronAPI<API = ElectronAPIOf<Window>>(): API {
+  const api =
+    typeof window !== 'undefined'
+      ? (window as unknown as Record<string, unknown>).electronAPI
+      : undefined;
+
+  if (!api) {
+    throw new Error(
+      isElectron()
+        ? 'window.electronAPI is not defined. Check that the preload script exposes it.'
+        : 'window.electronAPI is only available inside Electron. Use isElectron() to check first, or enable the `browser` option to develop in a browser.'
+    );
+  }
+
+  return api as API;
+}
+
+export interface NavigateOptions {
+  // Replace the current history entry instead of adding one
+  replace?: boolean;
+}
+
+/**
+ * Navigates to an Astro route the way links in the built pages do, so it
+ * works under the dev server, `file://`, hash routing and custom protocols.
+ */
+export function navigate(route: string, options: NavigateOptions = {}) {
+  const url = resolveRouteUrl(route, getRuntimeConfig(), window.location.href);
+
+  if (options.replace) {
+    window.location.replace(url);
+  } else {
+    window.location.assign(url);
+  }
+}
@@ -0,0 +1,65 @@
+import type { RuntimeConfig } from '../runtime.ts';
+
+// The page's HTML file for a route path such as `blog/post`, following the
+// build format. `preserve` can't be known at runtime, so a trailing slash is
+// taken to mean a directory
+function getPageFile(
+  routePath: string,
+  hasTrailingSlash: boolean,
+  format: RuntimeConfig['format']
+): string {
+  if (!routePath) return 'index.html';
+  if (/\.html?$/.test(routePath)) return routePath;
+
+  if (format === 'file' || (format === 'preserve' && !hasTrailingSlash)) {
+    return `${routePath}.html`;
+  }
+  return `${routePath}/index.html`;
+}
+
+function stripBase(route: string, base: string): string {
+  const prefix = base.replace(/\/+$/, '');
+  if (!prefix || !route.startsWith(prefix)) return route;
+
+  const rest = route.slice(prefix.length);
+  return !rest ? '/' : /^[/?#]/.test(rest) ? rest : route;
+}
+
+/**
+ * Resolves an Astro route (e.g. `/blog/post/`) to the URL that shows it from
+ * the current page: a dev server or custom protocol URL, a built file under
+ * `file://`, or a `#/` hash route on hash-routed pages.
+ */
+export function resolveRouteUrl(
+  route: string,
+  config: RuntimeConfig,
+  currentUrl: string
+): string {
+  if (route.startsWith('#')) return new URL(route, currentUrl).href;
+
+  // Relative routes resolve against the current page, like links do
+  if (!route.startsWith('/')) return new URL(route, currentUrl).href;
+
+  const url = new URL(currentUrl);
+  const [, pathname, suffix] = stripBase(route, config.base).match(
+    /^([^?#]*)(.*)$/s
+  )!;
+
+  if (url.protocol !== 'file:') {
+    const base = config.base.endsWith('/') ? config.base : `${config.base}/`;
+    return new URL(`${base}${pathname.replace(/^\/+/, '')}${suffix}`, url).href;
+  }
+
+  const routePath = pathname.replace(/^\/+|\/+$/g, '');
+
+  if (config.hashRouting) {
+    const hashRoute =
+      config.trailingSlash === 'always' && routePath
+        ? `#/${routePath}/`
+        : `#/${routePath}`;
+    return new URL(hashRoute, url).href;
+  }
+
+  const file = getPageFile(routePath, pathname.endsWith('/'), config.format);
+  return new URL(`${config.root || './'}${file}${suffix}`, url).href;
+}
@@ -0,0 +1,56 @@
+// Comments and plain strings are matched so they can be skipped; only
+// `@import "..."` and `url(...)` references are handed to the rewriter
+const CSS_REFERENCE =
+  /\/\*[\s\S]*?\*\/|(@import\s+)(["'])(.*?)\2|(url\(\s*)(["']?)([^"')]*?)\5(\s*\))|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g;
+
+/**
+ * Rewrites `url()` and `@import` references in a stylesheet, leaving
+ * comments, strings and everything else untouched.
+ */
+export function rewriteCss(
+  css: string,
+  rewrite: (url: string) => string
+): string {
+  return css.replace(
+    CSS_REFERENCE,
+    (
+      match,
+      importPrefix?: string,
+      importQuote?: string,
+      importUrl?: string,
+      urlPrefix?: string,
+      urlQuote?: string,
+      url?: string,
+      urlSuffix?: string
+    ) => {
+      if (importPrefix !== undefined && importUrl) {
+        return `${importPrefix}${importQuote}${rewrite(
+          importUrl
+        )}${importQuote}`;
+      }
+      if (urlPrefix !== undefined && url) {
+        return `${urlPrefix}${urlQuote}${rewrite(url)}${urlQuote}${urlSuffix}`;
+      }
+      return match;
+    }
+  );
+}
+
+// Every `url()` and `@import` reference with the line it appears on
+export function findCssUrls(css: string): { url: string; line: number }[] {
+  const urls: { url: string; line: number }[] = [];
+  let line = 1;
+  let lastIndex = 0;
+
+  for (const match of css.matchAll(CSS_REFERENCE)) {
+    line += css.slice(lastIndex, match.index).split('\n').length - 1;
+    lastIndex = match.index;
+
+    const url = match[3] || match[6];
+    if (url) {
+      urls.push({ url, line });
+    }
+  }
+
+  return urls;
+}
@@ -0,0 +1,124 @@
+import path from 'path';
+import type { ConstantValue } from './env.ts';
+
+// Where Astro writes types injected by this integration, relative to the
+// project root
+export const INJECTED_TYPES_DIR = '.astro/integrations/astro-electron-ts';
+
+// Where the main process and preload env types are written, relative to the
+// project root. Only the electron tsconfig includes it, so pages never see them
+export const ENV_DECLARATION_FILE = '.astro/electron-env.d.ts';
+
+// Import specifier for a project file from the injected types directory
+function importFromTypesDir(root: string, file: string): string {
+  const specifier = path
+    .relative(path.join(root, INJECTED_TYPES_DIR), path.resolve(root, file))
+    .replace(/\\/g, '/')
+    .replace(/\.[cm]?[jt]s$/, '');
+  return specifier.startsWith('.') ? specifier : `./${specifier}`;
+}
+
+/**
+ * Declares `window.electronAPI` from the IPC contract the project's
+ * `ipc` module default-exports.
+ */
+export function generateIpcDeclaration(
+  root: string,
+  contractPath: string
+): string {
+  return `import type { IpcRendererApi } from 'astro-electron-ts/ipc';
+import type contract from '${importFromTypesDir(root, contractPath)}';
+
+declare global {
+  interface Window {
+    electronAPI: IpcRendererApi<typeof contract>;
+  }
+}
+
+export {};
+`;
+}
+
+// Fills in a name registry interface exported by `astro-electron-ts/main`
+function generateRegistryDeclaration(
+  registry: string,
+  names: string[]
+): string {
+  const entries = names
+    .map((name) => `    ${JSON.stringify(name)}: true;`)
+    .join('\n');
+
+  return `declare module 'astro-electron-ts/main' {
+  interface ${registry} {
+${entries}
+  }
+}
+
+export {};
+`;
+}
+
+// Registers the configured window names so `openWindow` only accepts those
+export function generateWindowsDeclaration(names: string[]): string {
+  return generateRegistryDeclaration('WindowRegistry', names);
+}
+
+// Registers the named preload scripts so `getPreloadPath` only accepts those
+export function generatePreloadsDeclaration(names: string[]): string {
+  return generateRegistryDeclaration('PreloadRegistry', names);
+}
+
+// TypeScript type of a JSON-serializable constant
+function typeOfConstant(value: ConstantValue): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    return `(${
+      [...new Set(value.map(typeOfConstant))].join(' | ') || 'never'
+    })[]`;
+  }
+  if (typeof value === 'object') {
+    const members = Object.entries(value).map(
+      ([key, member]) => `${JSON.stringify(key)}: ${typeOfConstant(member)}`
+    );
+    return `{ ${members.join('; ')} }`;
+  }
+  return typeof value;
+}
+
+/**
+ * Types the constants defined into the main process and preload builds,
+ * plus the prefixed `.env` variables Vite exposes to them.
+ */
+export function generateEnvDeclaration(
+  constants: Record<string, ConstantValue>,
+  envNames: string[]
+): string {
+  const entries = [
+    ...Object.entries(constants).map(
+      ([name, value]) => `    readonly ${name}: ${typeOfConstant(value)};`
+    ),
+    '    readonly APP_VERSION: string;',
+    ...envNames.map((name) => `    readonly ${name}: string;`),
+  ].join('\n');
+
+  return `/// <reference types="vite/client" />
+
+declare global {
+  interface ImportMetaEnv {
+${entries}
+  }
+
+  namespace NodeJS {
+    interface ProcessEnv {
+      VITE_DEV_SERVER_URL?: string;
+      ASTRO_ELECTRON_RENDERER_DIR: string;
+      ASTRO_ELECTRON_PRELOAD: string;
+      ASTRO_ELECTRON_PRELOADS: string;
+      ASTRO_ELECTRON_WINDOWS: string;
+    }
+  }
+}
+
+export {};
+`;
+}
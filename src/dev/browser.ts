@@ -0,0 +1,182 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AstroIntegrationLogger } from 'astro';
+import type { BrowserHandlersModule } from '../ipc/browser.ts';
+
+// Dev server path the browser-mode API talks to
+export const BROWSER_API_ENDPOINT = '/__astro-electron';
+
+type Handlers = Record<string, ((...args: unknown[]) => unknown) | undefined>;
+
+/**
+ * Inline script that defines `window.electronAPI` in plain browsers. Invoke
+ * channels are POSTed to the dev server and events arrive over server-sent
+ * events. Inside Electron the preload script has already defined it, so the
+ * script does nothing.
+ */
+export function createBrowserApiScript(
+  endpoint = BROWSER_API_ENDPOINT
+): string {
+  return `(() => {
+  if (window.electronAPI) return;
+  const endpoint = ${JSON.stringify(endpoint)};
+  const listeners = new Map();
+  let events;
+  const on = (channel, listener) => {
+    if (!events) {
+      events = new EventSource(endpoint + '/events');
+      events.onmessage = (message) => {
+        const { channel, args } = JSON.parse(message.data);
+        for (const listener of listeners.get(channel) || []) listener(...args);
+      };
+    }
+    if (!listeners.has(channel)) listeners.set(channel, new Set());
+    listeners.get(channel).add(listener);
+    return () => listeners.get(channel).delete(listener);
+  };
+  const invoke = async (channel, args) => {
+    const response = await fetch(endpoint + '/invoke/' + encodeURIComponent(channel), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    const { result, error } = await response.json();
+    if (error !== undefined) throw new Error(error);
+    return result;
+  };
+  window.electronAPI = new Proxy({}, {
+    get: (_target, channel) =>
+      channel === 'on' ? on : typeof channel === 'string' ? (...args) => invoke(channel, args) : undefined,
+  });
+  console.info('[astro-electron-ts] window.electronAPI is served by the dev server');
+})();`;
+}
+
+export async function readBody(request: IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of request) {
+    body += chunk;
+  }
+  return body;
+}
+
+function sendJson(response: ServerResponse, status: number, data: unknown) {
+  response.statusCode = status;
+  response.setHeader('Content-Type', 'application/json');
+  response.end(JSON.stringify(data));
+}
+
+export interface BrowserApiMiddlewareOptions {
+  // Loads the handlers module, or returns undefined when none is configured
+  loadHandlers: () => Promise<BrowserHandlersModule<any> | undefined>;
+  logger: AstroIntegrationLogger;
+}
+
+/**
+ * Connect middleware, mounted at `BROWSER_API_ENDPOINT`, that answers
+ * browser-mode IPC calls with the configured handlers.
+ */
+export function createBrowserApiMiddleware({
+  loadHandlers,
+  logger,
+}: BrowserApiMiddlewareOptions) {
+  const clients = new Set<ServerResponse>();
+  let loaded: BrowserHandlersModule<any> | undefined;
+  let handlers: Handlers = {};
+
+  const send = (channel: string, ...args: unknown[]) => {
+    const message = `data: ${JSON.stringify({ channel, args })}\n\n`;
+    for (const client of clients) {
+      client.write(message);
+    }
+  };
+
+  // Factories are only called again when the module is reloaded
+  const getHandlers = async (): Promise<Handlers> => {
+    const module = await loadHandlers();
+    if (module !== loaded) {
+      loaded = module;
+      handlers = (
+        typeof module === 'function' ? module({ send }) : module || {}
+      ) as Handlers;
+    }
+    return handlers;
+  };
+
+  return async (
+    request: IncomingMessage,
+    response: ServerResponse,
+    next: (error?: unknown) => void
+  ) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    if (request.method === 'GET' && url.pathname === '/events') {
+      response.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      response.write(': connected\n\n');
+      clients.add(response);
+      request.on('close', () => clients.delete(response));
+      return;
+    }
+
+    const invoke = url.pathname.match(/^\/invoke\/([^/]+)$/);
+    if (request.method !== 'POST' || !invoke) {
+      return next();
+    }
+
+    // Other sites open in the browser can't call the handlers: a JSON body
+    // needs a CORS preflight, which is never answered, and a page of the dev
+    // server itself sends its own origin
+    const origin = request.headers.origin;
+    if (origin && origin !== 'null') {
+      let host: string;
+      try {
+        host = new URL(origin).host;
+      } catch {
+        return sendJson(response, 400, { error: 'Invalid Origin header' });
+      }
+      if (host !== request.headers.host) {
+        return sendJson(response, 403, {
+          error: 'Cross-origin IPC calls are not allowed',
+        });
+      }
+    }
+    if (!/^application\/json\b/i.test(request.headers['content-type'] || '')) {
+      return sendJson(response, 415, {
+        error: 'Expected an application/json body',
+      });
+    }
+
+    let channel: string;
+    try {
+      channel = decodeURIComponent(invoke[1]);
+    } catch {
+      return sendJson(response, 400, { error: 'Invalid IPC channel name' });
+    }
+
+    try {
+      const args = JSON.parse((await readBody(request)) || '[]');
+      if (!Array.isArray(args)) {
+        return sendJson(response, 400, {
+          error: 'Expected a JSON array of arguments',
+        });
+      }
+
+      const handler = (await getHandlers())[channel];
+      if (typeof handler !== 'function') {
+        return sendJson(response, 404, {
+          error: `No browser handler for IPC channel "${channel}"`,
+        });
+      }
+
+      sendJson(response, 200, { result: await handler(...args) });
+    } catch (error) {
+      logger.error(`Browser IPC call to "${channel}" failed: ${error}`);
+      sendJson(response, 500, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
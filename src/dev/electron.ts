@@ -0,0 +1,171 @@
+import type { ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import type { AstroIntegrationLogger } from 'astro';
+import { startup } from 'vite-plugin-electron';
+import { forwardElectronOutput } from './logs.ts';
+
+// What happens when the main process is rebuilt during `astro dev`:
+// restart Electron, ask in the terminal first, or wait for a restart from
+// the dev toolbar
+export type MainRestartPolicy = 'restart' | 'prompt' | 'manual';
+
+export interface DevOptions {
+  // Defaults to `restart`
+  mainRestart?: MainRestartPolicy;
+  // Extra arguments for the Electron process, e.g. `['--lang=de']`
+  args?: string[];
+  // Open the Node inspector for the main process. `true` uses port 9229
+  inspect?: boolean | number;
+  // Expose the renderers to Chrome DevTools Protocol clients. `true` uses
+  // port 9222
+  remoteDebuggingPort?: boolean | number;
+}
+
+const DEFAULT_INSPECT_PORT = 9229;
+const DEFAULT_REMOTE_DEBUGGING_PORT = 9222;
+
+// vite-plugin-electron's default arguments plus the configured ones
+export function getElectronArgs(options: DevOptions = {}): string[] {
+  const args = ['.', '--no-sandbox'];
+
+  if (options.inspect) {
+    const port =
+      options.inspect === true ? DEFAULT_INSPECT_PORT : options.inspect;
+    args.push(`--inspect=${port}`);
+  }
+  if (options.remoteDebuggingPort) {
+    const port =
+      options.remoteDebuggingPort === true
+        ? DEFAULT_REMOTE_DEBUGGING_PORT
+        : options.remoteDebuggingPort;
+    args.push(`--remote-debugging-port=${port}`);
+  }
+
+  return [...args, ...(options.args || [])];
+}
+
+// Debug ports the generated VS Code launch configuration passes to
+// `astro dev`, taking precedence over the integration's `dev` options
+function getDebugPortsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Pick<DevOptions, 'inspect' | 'remoteDebuggingPort'> {
+  const ports: Pick<DevOptions, 'inspect' | 'remoteDebuggingPort'> = {};
+  const inspect = Number(env.ASTRO_ELECTRON_INSPECT);
+  const remoteDebuggingPort = Number(env.ASTRO_ELECTRON_REMOTE_DEBUGGING_PORT);
+
+  if (inspect > 0) ports.inspect = inspect;
+  if (remoteDebuggingPort > 0) ports.remoteDebuggingPort = remoteDebuggingPort;
+  return ports;
+}
+
+// Set by vite-plugin-electron's `startup`
+function getElectronApp(): ChildProcess | undefined {
+  return (process as { electronApp?: ChildProcess }).electronApp;
+}
+
+export function isElectronRunning(): boolean {
+  const electronApp = getElectronApp();
+  return (
+    !!electronApp &&
+    electronApp.exitCode === null &&
+    electronApp.signalCode === null
+  );
+}
+
+// Asks a yes/no question in the terminal. Without one, the answer is no
+function confirmInTerminal(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return Promise.resolve(false);
+
+  const terminal = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) => {
+    terminal.question(`${question} (y/N) `, (answer) => {
+      terminal.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+export interface ElectronRunnerOptions {
+  dev?: DevOptions;
+  logger: AstroIntegrationLogger;
+  // Where preload console output goes. Defaults to `logger`
+  preloadLogger?: AstroIntegrationLogger;
+  // Overridable for tests
+  start?: (args: string[]) => Promise<ChildProcess | undefined>;
+  confirm?: (question: string) => Promise<boolean>;
+}
+
+export interface ElectronRunner {
+  // Starts Electron, or restarts it when it's running
+  start: () => Promise<void>;
+  // Applies `mainRestart` after the main process was rebuilt
+  onMainRebuilt: () => Promise<void>;
+  // Starts Electron after a preload build unless it's running already;
+  // windows reload their own preload scripts
+  onPreloadRebuilt: () => Promise<void>;
+}
+
+async function startWithOutput(
+  args: string[]
+): Promise<ChildProcess | undefined> {
+  await startup(args, { stdio: ['inherit', 'pipe', 'pipe'] });
+  return getElectronApp();
+}
+
+/**
+ * Starts and restarts the Electron app during `astro dev` according to the
+ * integration's `dev` options, forwarding its output to `logger`.
+ */
+export function createElectronRunner({
+  dev = {},
+  logger,
+  preloadLogger = logger,
+  start = startWithOutput,
+  confirm = confirmInTerminal,
+}: ElectronRunnerOptions): ElectronRunner {
+  const options = { ...dev, ...getDebugPortsFromEnv() };
+  const policy = options.mainRestart || 'restart';
+  let prompting = false;
+
+  const runner: ElectronRunner = {
+    start: async () => {
+      const electronApp = await start(getElectronArgs(options));
+      if (electronApp) {
+        forwardElectronOutput(electronApp, logger, preloadLogger);
+      }
+    },
+    onMainRebuilt: async () => {
+      if (!isElectronRunning() || policy === 'restart') {
+        return runner.start();
+      }
+
+      if (policy === 'manual') {
+        logger.info(
+          'Main process rebuilt. Restart it from the Electron app in the dev toolbar to apply the changes.'
+        );
+        return;
+      }
+
+      // Rebuilds while the question is open are covered by the answer
+      if (prompting) return;
+      prompting = true;
+      try {
+        if (await confirm('Main process rebuilt. Restart Electron?')) {
+          await runner.start();
+        }
+      } finally {
+        prompting = false;
+      }
+    },
+    onPreloadRebuilt: async () => {
+      if (!isElectronRunning()) {
+        await runner.start();
+      }
+    },
+  };
+
+  return runner;
+}
@@ -0,0 +1,106 @@
+import type { ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import type { Readable } from 'stream';
+import type { AstroIntegrationLogger } from 'astro';
+import type { Logger as ViteLogger } from 'vite';
+import { PRELOAD_OUTPUT_PREFIX } from '../main/console.ts';
+
+// Labels of the sub-loggers main and preload output is written through
+export const MAIN_LOGGER_LABEL = 'electron:main';
+export const PRELOAD_LOGGER_LABEL = 'electron:preload';
+
+// Signals Electron gets when the dev server itself is stopped
+const QUIT_SIGNALS = new Set(['SIGINT', 'SIGTERM', 'SIGHUP']);
+
+// Node writes `console.warn` and `console.error` to stderr alike, so only
+// lines that look like an error are logged as one
+const ERROR_LINE = /\b(?:Error|Exception|Uncaught|FATAL)\b/;
+
+/**
+ * Vite logger for the main and preload builds that writes through an Astro
+ * logger, so build output is labeled and leveled like the rest of
+ * `astro dev`.
+ */
+export function createViteLogger(logger: AstroIntegrationLogger): ViteLogger {
+  const warnings = new Set<string>();
+  const loggedErrors = new WeakSet<object>();
+
+  const viteLogger: ViteLogger = {
+    hasWarned: false,
+    info: (message) => {
+      if (message.trim()) logger.info(message);
+    },
+    warn: (message) => {
+      viteLogger.hasWarned = true;
+      logger.warn(message);
+    },
+    warnOnce: (message) => {
+      if (warnings.has(message)) return;
+      warnings.add(message);
+      viteLogger.warn(message);
+    },
+    error: (message, options) => {
+      if (options?.error) loggedErrors.add(options.error);
+      logger.error(message);
+    },
+    clearScreen: () => {},
+    hasErrorLogged: (error) => loggedErrors.has(error),
+  };
+
+  return viteLogger;
+}
+
+function forwardLines(
+  stream: Readable | null,
+  log: (line: string) => void
+): void {
+  if (!stream) return;
+  createInterface({ input: stream }).on('line', (line) => {
+    if (line.trim()) log(line);
+  });
+}
+
+/**
+ * Logs the output of the spawned Electron process, which has to be started
+ * with piped stdout and stderr. Lines the main process forwarded from preload
+ * scripts go to `preloadLogger`. A crash is reported as an error and leaves
+ * the dev server running; quitting the app normally still stops it.
+ */
+export function forwardElectronOutput(
+  electronApp: ChildProcess,
+  logger: AstroIntegrationLogger,
+  preloadLogger = logger
+): void {
+  const getLogger = (line: string): [AstroIntegrationLogger, string] =>
+    line.startsWith(PRELOAD_OUTPUT_PREFIX)
+      ? [preloadLogger, line.slice(PRELOAD_OUTPUT_PREFIX.length)]
+      : [logger, line];
+
+  forwardLines(electronApp.stdout, (line) => {
+    const [target, message] = getLogger(line);
+    target.info(message);
+  });
+  forwardLines(electronApp.stderr, (line) => {
+    const [target, message] = getLogger(line);
+    if (ERROR_LINE.test(message)) {
+      target.error(message);
+    } else {
+      target.warn(message);
+    }
+  });
+
+  // vite-plugin-electron exits the dev server with Electron's exit code
+  electronApp.removeAllListeners('exit');
+  electronApp.once('exit', (code, signal) => {
+    if (code === 0 || (signal && QUIT_SIGNALS.has(signal))) {
+      process.exit(code ?? 0);
+      return;
+    }
+
+    logger.error(
+      `Electron exited with ${
+        signal ? `signal ${signal}` : `code ${code}`
+      }. Save a main process file to start it again, or restart \`astro dev\`.`
+    );
+  });
+}
@@ -0,0 +1,61 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AstroIntegrationLogger } from 'astro';
+import { TOOLBAR_EVENTS, type ElectronDevState } from '../toolbar/state.ts';
+import { readBody } from './browser.ts';
+
+// The parts of Astro's `toolbar` server helpers used here
+export interface ToolbarServer {
+  send: (event: string, payload: unknown) => void;
+  on: (event: string, callback: (data: unknown) => void) => void;
+}
+
+export interface DevStateMiddlewareOptions {
+  toolbar: ToolbarServer;
+  // Restarts the Electron app
+  restart: () => Promise<void>;
+  logger: AstroIntegrationLogger;
+}
+
+/**
+ * Connect middleware, mounted at `DEVTOOLS_ENDPOINT`, that receives the
+ * state the main process posts and relays it to the dev toolbar app. Also
+ * answers the app's requests for the current state and for restarts.
+ */
+export function createDevStateMiddleware({
+  toolbar,
+  restart,
+  logger,
+}: DevStateMiddlewareOptions) {
+  let state: ElectronDevState | null = null;
+
+  toolbar.on(TOOLBAR_EVENTS.requestState, () => {
+    toolbar.send(TOOLBAR_EVENTS.state, state);
+  });
+
+  toolbar.on(TOOLBAR_EVENTS.restart, () => {
+    state = null;
+    toolbar.send(TOOLBAR_EVENTS.state, state);
+    restart().catch((error) =>
+      logger.error(`Could not restart Electron: ${error}`)
+    );
+  });
+
+  return async (
+    request: IncomingMessage,
+    response: ServerResponse,
+    next: (error?: unknown) => void
+  ) => {
+    if (request.method !== 'POST') {
+      return next();
+    }
+
+    try {
+      state = JSON.parse(await readBody(request));
+      toolbar.send(TOOLBAR_EVENTS.state, state);
+      response.statusCode = 204;
+    } catch {
+      response.statusCode = 400;
+    }
+    response.end();
+  };
+}
@@ -0,0 +1,96 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { loadEnv } from 'vite';
+
+// `.env` variables with this prefix are exposed to the main process and
+// preload scripts, and to nothing else
+export const DEFAULT_ENV_PREFIX = 'MAIN_VITE_';
+
+// Astro's default `envPrefix`, i.e. variables bundled into pages
+const RENDERER_ENV_PREFIX = 'PUBLIC_';
+
+export type ConstantValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ConstantValue[]
+  | { [key: string]: ConstantValue };
+
+export interface BuildConstants {
+  // Whether main and preload are built for `astro dev`
+  dev: boolean;
+  // `version` from the project's package.json
+  version: string;
+  // The integration's `constants` option
+  constants?: Record<string, ConstantValue>;
+}
+
+/**
+ * Throws when main process variables would also match the prefix Vite uses
+ * for the renderer, since those end up in the pages shipped with the app.
+ */
+export function checkEnvPrefix(
+  prefix: string,
+  rendererPrefix: string | string[] = RENDERER_ENV_PREFIX
+): void {
+  if (!prefix) {
+    throw new Error(
+      '`envPrefix` must not be empty, or every environment variable would be bundled into the main process'
+    );
+  }
+
+  for (const other of [rendererPrefix].flat()) {
+    if (prefix.startsWith(other) || other.startsWith(prefix)) {
+      throw new Error(
+        `\`envPrefix\` "${prefix}" overlaps the renderer's "${other}", so main process variables would be bundled into pages`
+      );
+    }
+  }
+}
+
+export function readPackageVersion(root: string): string {
+  try {
+    const packageJson = readFileSync(path.join(root, 'package.json'), 'utf-8');
+    return JSON.parse(packageJson).version || '0.0.0';
+  } catch {
+    return '0.0.0';
+  }
+}
+
+// `import.meta.env` entries defined into the main process and preload builds
+export function getEnvDefines(
+  constants: BuildConstants
+): Record<string, string> {
+  for (const name of Object.keys(constants.constants || {})) {
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+      throw new Error(
+        `Invalid constant name "${name}". It must be a valid identifier.`
+      );
+    }
+  }
+
+  const values: Record<string, ConstantValue> = {
+    ...constants.constants,
+    DEV: constants.dev,
+    PROD: !constants.dev,
+    APP_VERSION: constants.version,
+  };
+
+  return Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [
+      `import.meta.env.${name}`,
+      JSON.stringify(value),
+    ])
+  );
+}
+
+// Names of the `.env` variables Vite will expose for `mode`. Values are
+// never read back, so they can't end up in generated files
+export function loadEnvNames(
+  mode: string,
+  envDir: string,
+  prefix: string
+): string[] {
+  return Object.keys(loadEnv(mode, envDir, prefix)).sort();
+}
@@ -0,0 +1,262 @@
+import { parse, type DefaultTreeAdapterMap } from 'parse5';
+
+type Node = DefaultTreeAdapterMap['node'];
+type Element = DefaultTreeAdapterMap['element'];
+type Template = DefaultTreeAdapterMap['template'];
+type TextNode = DefaultTreeAdapterMap['textNode'];
+
+export interface HtmlRewriteHandlers {
+  // Called for every URL found in a URL-bearing attribute. `line` is where
+  // the attribute starts in the document
+  url: (
+    url: string,
+    attribute: string,
+    element: string,
+    line: number
+  ) => string;
+  // Called with the raw text of every inline <script>
+  script?: (content: string, line: number) => string;
+  // Called with the contents of every <style> element and style attribute
+  style?: (css: string, line: number) => string;
+  // Called with the serialized props JSON of every <astro-island>
+  islandProps?: (json: string) => string;
+  // Called for attribute values that aren't URLs
+  attribute?: (value: string, attribute: string, element: string) => string;
+}
+
+export interface HtmlRewriteOptions {
+  // Attributes holding a single URL on top of the built-in ones, e.g.
+  // `data-src`
+  urlAttributes?: string[];
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Attributes whose whole value is a single URL
+const URL_ATTRIBUTES = new Set([
+  'href',
+  'src',
+  'to',
+  'hydrate',
+  'poster',
+  'action',
+  'formaction',
+  'xlink:href',
+]);
+
+// URL attributes that only mean something on one element
+const ELEMENT_URL_ATTRIBUTES: Record<string, string[]> = {
+  'astro-island': ['component-url', 'renderer-url', 'before-hydration-url'],
+};
+
+function getAttributeName(attr: Element['attrs'][number]): string {
+  return attr.prefix ? `${attr.prefix}:${attr.name}` : attr.name;
+}
+
+function rewriteSrcset(
+  value: string,
+  rewrite: (url: string) => string
+): string {
+  return value
+    .split(',')
+    .map((candidate) =>
+      candidate.replace(/^(\s*)(\S+)/, (_match, space, url) => {
+        return `${space}${rewrite(url)}`;
+      })
+    )
+    .join(',');
+}
+
+function rewriteRefresh(
+  value: string,
+  rewrite: (url: string) => string
+): string {
+  return value.replace(
+    /^(\s*[\d.]*\s*[;,]\s*(?:url\s*=\s*)?)(['"]?)(.+?)\2(\s*)$/i,
+    (_match, prefix, quote, url, suffix) =>
+      `${prefix}${quote}${rewrite(url)}${quote}${suffix}`
+  );
+}
+
+function rewriteAttribute(
+  element: Element,
+  attribute: string,
+  value: string,
+  handlers: HtmlRewriteHandlers,
+  urlAttributes: Set<string>,
+  line: number
+): string {
+  const rewrite = (url: string) =>
+    url ? handlers.url(url, attribute, element.tagName, line) : url;
+
+  if (
+    urlAttributes.has(attribute) ||
+    ELEMENT_URL_ATTRIBUTES[element.tagName]?.includes(attribute)
+  ) {
+    return rewrite(value);
+  }
+
+  if (
+    element.tagName === 'astro-island' &&
+    attribute === 'props' &&
+    handlers.islandProps
+  ) {
+    return handlers.islandProps(value);
+  }
+
+  if (attribute === 'srcset') {
+    return rewriteSrcset(value, rewrite);
+  }
+
+  if (
+    element.tagName === 'meta' &&
+    attribute === 'content' &&
+    element.attrs
+      .find((attr) => attr.name === 'http-equiv')
+      ?.value.toLowerCase() === 'refresh'
+  ) {
+    return rewriteRefresh(value, rewrite);
+  }
+
+  if (attribute === 'style' && handlers.style) {
+    return handlers.style(value, line);
+  }
+
+  return handlers.attribute
+    ? handlers.attribute(value, attribute, element.tagName)
+    : value;
+}
+
+// Re-serializes an attribute keeping the original name, spacing and quotes
+function serializeAttribute(raw: string, value: string): string {
+  const match = raw.match(/^([^\s=]+\s*=\s*)(["']?)/);
+  if (!match) return raw;
+
+  const [, prefix, quote] = match;
+  let escaped = value.replace(/&/g, '&amp;');
+
+  if (quote) {
+    escaped = escaped.replace(
+      new RegExp(quote, 'g'),
+      quote === '"' ? '&quot;' : '&#39;'
+    );
+    return `${prefix}${quote}${escaped}${quote}`;
+  }
+
+  if (/[\s"'=<>`]/.test(escaped) || !escaped) {
+    return `${prefix}"${escaped.replace(/"/g, '&quot;')}"`;
+  }
+
+  return `${prefix}${escaped}`;
+}
+
+function collectEdits(
+  html: string,
+  node: Node,
+  handlers: HtmlRewriteHandlers,
+  urlAttributes: Set<string>,
+  edits: Edit[]
+) {
+  if ('tagName' in node) {
+    const locations = node.sourceCodeLocation?.attrs;
+
+    for (const attr of node.attrs) {
+      const name = getAttributeName(attr);
+      const location = locations?.[name];
+      if (!location) continue;
+
+      const value = rewriteAttribute(
+        node,
+        name,
+        attr.value,
+        handlers,
+        urlAttributes,
+        location.startLine
+      );
+      if (value === attr.value) continue;
+
+      const raw = html.slice(location.startOffset, location.endOffset);
+      edits.push({
+        start: location.startOffset,
+        end: location.endOffset,
+        text: serializeAttribute(raw, value),
+      });
+    }
+
+    const rewriteText =
+      node.tagName === 'script'
+        ? handlers.script
+        : node.tagName === 'style'
+        ? handlers.style
+        : undefined;
+
+    if (rewriteText) {
+      const text = node.childNodes[0] as TextNode | undefined;
+      const location = text?.sourceCodeLocation;
+
+      if (text && location) {
+        const content = html.slice(location.startOffset, location.endOffset);
+        const updated = rewriteText(content, location.startLine);
+        if (updated !== content) {
+          edits.push({
+            start: location.startOffset,
+            end: location.endOffset,
+            text: updated,
+          });
+        }
+      }
+    }
+
+    if (node.tagName === 'template') {
+      collectEdits(
+        html,
+        (node as Template).content,
+        handlers,
+        urlAttributes,
+        edits
+      );
+    }
+  }
+
+  if ('childNodes' in node) {
+    for (const child of node.childNodes) {
+      collectEdits(html, child, handlers, urlAttributes, edits);
+    }
+  }
+}
+
+/**
+ * Rewrites URLs in an HTML document. Only real URL-bearing attributes, inline
+ * scripts and styles are visited; everything else is kept byte-for-byte.
+ */
+export function rewriteHtml(
+  html: string,
+  handlers: HtmlRewriteHandlers,
+  options: HtmlRewriteOptions = {}
+): string {
+  const document = parse(html, {
+    sourceCodeLocationInfo: true,
+    // Parse <noscript> contents as markup so their links are visited too
+    scriptingEnabled: false,
+  });
+
+  // parse5 lowercases attribute names
+  const urlAttributes = new Set([
+    ...URL_ATTRIBUTES,
+    ...(options.urlAttributes || []).map((name) => name.toLowerCase()),
+  ]);
+
+  const edits: Edit[] = [];
+  collectEdits(html, document, handlers, urlAttributes, edits);
+
+  let output = html;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+  }
+
+  return output;
+}
@@ -1,3 +1,13 @@
 import { integration } from './integration.ts';
 
+export type { ElectronIntegrationConfig } from './integration.ts';
+export type { AppWindowConfig } from './main/registry.ts';
+export type { PreloadFormat, PreloadInput } from './preloads.ts';
+export type {
+  CustomRewriteRule,
+  RewriteOptions,
+  RewriteRuleContext,
+} from './rewrite.ts';
+export type { SourcemapOption } from './sourcemap.ts';
+
 export default integration;
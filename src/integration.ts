@@ -1,219 +1,746 @@
 import fs from 'fs/promises';
 import path from 'path';
-import vitePluginElectron from 'vite-plugin-electron/simple';
+import { fileURLToPath } from 'url';
+import vitePluginElectron from 'vite-plugin-electron';
 import { type RendererOptions } from 'vite-plugin-electron-renderer';
-import type { AstroIntegration, AstroConfig, RouteData } from 'astro';
-import type { UserConfig as ViteUserConfig } from 'vite';
+import type {
+  AstroIntegration,
+  AstroIntegrationLogger,
+  AstroConfig,
+  InjectedScriptStage,
+  RouteData,
+} from 'astro';
+import type { UserConfig as ViteUserConfig, ViteDevServer } from 'vite';
+import { createPageCache, DEFAULT_CACHE_DIR } from './cache.ts';
+import { rewriteCss } from './css.ts';
+import type { AppWindowConfig } from './main/registry.ts';
+import { createRuntimeConfigScript } from './runtime.ts';
+import {
+  checkEnvPrefix,
+  DEFAULT_ENV_PREFIX,
+  getEnvDefines,
+  loadEnvNames,
+  readPackageVersion,
+  type ConstantValue,
+} from './env.ts';
+import {
+  ENV_DECLARATION_FILE,
+  generateEnvDeclaration,
+  generateIpcDeclaration,
+  generatePreloadsDeclaration,
+  generateWindowsDeclaration,
+} from './declarations.ts';
+import {
+  BROWSER_API_ENDPOINT,
+  createBrowserApiMiddleware,
+  createBrowserApiScript,
+} from './dev/browser.ts';
+import {
+  createElectronRunner,
+  type DevOptions,
+  type ElectronRunner,
+} from './dev/electron.ts';
+import {
+  createViteLogger,
+  MAIN_LOGGER_LABEL,
+  PRELOAD_LOGGER_LABEL,
+} from './dev/logs.ts';
+import { rewriteHtml } from './html.ts';
+import { checkOutputLinks } from './links.ts';
+import { createDevStateMiddleware, type ToolbarServer } from './dev/toolbar.ts';
+import { mapWithConcurrency } from './pool.ts';
+import {
+  createPreloadBuilds,
+  getDefaultPreload,
+  getPreloadFileNames,
+  normalizePreloadInput,
+  type PreloadFormat,
+  type PreloadInput,
+} from './preloads.ts';
+import {
+  DEFAULT_REPORT_PATH,
+  writeRewriteReport,
+  type RewriteReport,
+  type RewriteReportEntry,
+} from './report.ts';
+import { collectPages, getPagePathname } from './routes.ts';
+import { resolveSourcemap, type SourcemapOption } from './sourcemap.ts';
+import { DEVTOOLS_ENDPOINT, TOOLBAR_APP_ID } from './toolbar/state.ts';
+import {
+  detectHashRouting,
+  resolveRoutingMode,
+  type PageRoutingMode,
+  type RoutingMode,
+} from './routing.ts';
+import {
+  applyCustomRule,
+  createAssetPattern,
+  createPageRewriteHandlers,
+  rewriteRootRelativeUrl,
+  type RewriteOptions,
+  type RewriteRecorder,
+  type UrlRewriteContext,
+} from './rewrite.ts';
 
-interface ElectronIntegrationConfig {
+export interface ElectronIntegrationConfig {
   main?: {
     entry?: string;
     vite?: Partial<ViteUserConfig>;
   };
   preload?: {
-    input?: string;
+    // A script, or named scripts for windows that need different bridges,
+    // e.g. `{ main: 'electron/preload.ts', viewer: 'electron/viewer.ts' }`.
+    // The main process refers to them by name, see `getPreloadPath`
+    input?: PreloadInput;
+    // `cjs` preload scripts run in sandboxed renderers; `esm` ones need
+    // `sandbox: false`. Defaults to `cjs`
+    format?: PreloadFormat;
     vite?: Partial<ViteUserConfig>;
   };
   renderer?: Partial<RendererOptions>;
+  // How page links are written in the build. `protocol` serves the renderer
+  // through a privileged custom scheme (see `serveAppProtocol` in
+  // `astro-electron-ts/main`) and skips post-processing. Defaults to `file`
+  routing?: RoutingMode;
+  // Per-page routing modes keyed by pathname globs, e.g. `'/app/**': 'hash'`
+  routingOverrides?: Record<string, PageRoutingMode>;
+  // Verify that local URLs in the built HTML and CSS resolve to files
+  checkLinks?: boolean;
+  // Like `checkLinks`, but fail the build on unresolved URLs
+  strictLinks?: boolean;
+  // Write a report of every rewritten URL. Pass a path (relative to the
+  // project root) to change where the JSON report goes; a `.txt` summary is
+  // written next to it
+  report?: boolean | string;
+  // Maximum number of files read and rewritten at once. Defaults to 16
+  concurrency?: number;
+  // Reuse rewritten pages from earlier builds when neither their content nor
+  // the rewrite settings changed. Stored in `node_modules/.astro-electron`,
+  // defaults to `true`
+  cache?: boolean;
+  // Extends the URL rewriting done for `file://`: extra URL attributes,
+  // extra asset extensions and a custom rule that runs before the built-in
+  // ones
+  rewrite?: RewriteOptions;
+  // Module (relative to the project root) that default-exports the IPC
+  // contract, e.g. `electron/ipc.ts`. Used to type `window.electronAPI`
+  ipc?: string;
+  // Define `window.electronAPI` when the dev server is opened in a plain
+  // browser. `handlers` is a module (relative to the project root) that
+  // default-exports the Node-side implementations or mocks of the IPC
+  // channels, see `defineBrowserHandlers`
+  browser?: boolean | { handlers?: string };
+  // Windows the main process can open by name with `openWindow`, each
+  // showing an Astro route
+  windows?: Record<string, AppWindowConfig>;
+  // Values defined into the main process and preload scripts as
+  // `import.meta.env.<name>`, next to `DEV`, `PROD` and `APP_VERSION`.
+  // Must be JSON-serializable
+  constants?: Record<string, ConstantValue>;
+  // Only `.env` variables starting with this prefix are exposed to the main
+  // process and preload scripts, as `import.meta.env.<name>`. Must not
+  // overlap the renderer's prefix. Defaults to `MAIN_VITE_`
+  envPrefix?: string;
+  // Add an Electron app to Astro's dev toolbar, showing open windows, recent
+  // IPC calls and versions. Defaults to `true`
+  toolbar?: boolean;
+  // How `astro dev` runs Electron: the restart policy for main process
+  // changes, extra arguments and debugging ports
+  dev?: DevOptions;
+  // Source maps for the main process and preload builds. Defaults to
+  // `'inline'` for `astro dev` and `true` (separate `.map` files) for
+  // `astro build`. A `build.sourcemap` in `main.vite` or `preload.vite`
+  // takes precedence
+  sourcemap?: SourcemapOption;
+  // Inject the inline script `navigate` from `astro-electron-ts/client`
+  // reads to resolve routes. A strict `script-src` Content Security Policy
+  // has to allow it, so it's off by default
+  clientConfig?: boolean;
 }
 
-function isHashRoutingComponent(content: string, filePath: string): boolean {
-  // Check for common hash-based routing patterns
-  const hashRoutingPatterns = [
-    'createHashRouter', // react-router
-    'createWebHashHistory', // vue-router
-    'HashRouter', // react-router-dom
-    'useHashRouter', // various frameworks
-    'mode: "hash"', // various routers
-    'type: "hash"', // various routers
-  ];
-
-  return (
-    // Check if the file is a router configuration
-    filePath.includes('router') ||
-    // Or if it contains hash routing patterns
-    hashRoutingPatterns.some((pattern) => content.includes(pattern))
+const DEFAULT_CONCURRENCY = 16;
+
+const TOOLBAR_ICON =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5"><rect x="3" y="4" width="18" height="16" rx="2"/><path d="M3 8h18M6 6h.01M8.5 6h.01"/></svg>';
+
+function elapsed(start: number): string {
+  return `${Math.round(performance.now() - start)}ms`;
+}
+
+// Names the output file in the error Astro reports for a failed build
+function processingError(filePath: string, error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  return new Error(`Could not process ${filePath}: ${message}`, {
+    cause: error,
+  });
+}
+
+// Renderer output relative to the project root, e.g. `dist`
+export function getRendererDir(config: AstroConfig): string {
+  const relativePath = path.relative(
+    fileURLToPath(config.root),
+    fileURLToPath(config.outDir)
   );
+  return relativePath.replace(/\\/g, '/') || '.';
+}
+
+// Constants defined into the main process build, read by
+// `astro-electron-ts/main`
+export function getMainDefines(
+  config: AstroConfig,
+  integrationConfig: ElectronIntegrationConfig
+): Record<string, string> {
+  const preloads = getPreloadFileNames(
+    normalizePreloadInput(integrationConfig.preload?.input),
+    integrationConfig.preload?.format
+  );
+
+  return {
+    'process.env.ASTRO_ELECTRON_RENDERER_DIR': JSON.stringify(
+      getRendererDir(config)
+    ),
+    'process.env.ASTRO_ELECTRON_WINDOWS': JSON.stringify(
+      JSON.stringify(integrationConfig.windows || {})
+    ),
+    'process.env.ASTRO_ELECTRON_PRELOADS': JSON.stringify(
+      JSON.stringify(preloads)
+    ),
+    'process.env.ASTRO_ELECTRON_PRELOAD': JSON.stringify(
+      getDefaultPreload(preloads)
+    ),
+  };
 }
 
 export const integration = (
   integrationConfig: ElectronIntegrationConfig = {}
-): AstroIntegration => ({
-  name: 'astro-electron-ts',
-  hooks: {
-    'astro:config:setup': ({
-      config,
-      command,
-      updateConfig,
-    }: {
-      config: AstroConfig;
-      command: string;
-      updateConfig: (newConfig: Partial<AstroConfig>) => void;
-    }) => {
-      if (command === 'build') {
-        updateConfig({
-          base: './',
-          vite: {
+): AstroIntegration => {
+  const routing = integrationConfig.routing || 'file';
+  const isProtocolRouting = routing === 'protocol';
+  const checkLinks =
+    integrationConfig.checkLinks || integrationConfig.strictLinks;
+  const concurrency = integrationConfig.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(
+      `\`concurrency\` must be a positive integer, got ${String(
+        integrationConfig.concurrency
+      )}`
+    );
+  }
+  const rewriteOptions = integrationConfig.rewrite || {};
+  const assetPattern = createAssetPattern(rewriteOptions.assetExtensions);
+  const htmlOptions = { urlAttributes: rewriteOptions.attributes };
+
+  // The user's base is replaced with './' for builds, so keep the original
+  // to strip it from URLs during post-processing
+  let base = '/';
+  let format: AstroConfig['build']['format'] = 'directory';
+  let trailingSlash: AstroConfig['trailingSlash'] = 'ignore';
+  let root = process.cwd();
+  let mode = 'production';
+  const envPrefix = integrationConfig.envPrefix ?? DEFAULT_ENV_PREFIX;
+  const isToolbarEnabled = integrationConfig.toolbar !== false;
+  // Set up in `astro:config:setup`, only used during `astro dev`
+  let electron: ElectronRunner | undefined;
+
+  const rewriteOutput = async (
+    distDir: string,
+    outputFiles: string[],
+    routes: RouteData[],
+    routing: PageRoutingMode,
+    logger: AstroIntegrationLogger
+  ) => {
+    const report: RewriteReport | undefined = integrationConfig.report
+      ? new Map()
+      : undefined;
+    const recordFor = (file: string): RewriteRecorder | undefined =>
+      report &&
+      ((original, rewritten, rule) => {
+        const entries = report.get(file) || [];
+        entries.push({ original, rewritten, rule });
+        report.set(file, entries);
+      });
+
+    const pages = new Set(outputFiles.filter((file) => file.endsWith('.html')));
+    const files = new Set(outputFiles);
+
+    // Walk the whole output so dynamic, redirect and 404 pages are
+    // processed too, not just routes with a distURL
+    const pageRoutes = collectPages([...pages], routes, distDir);
+
+    const isHashRoutingPage = (content: string, pagePath: string) => {
+      const mode = resolveRoutingMode(
+        getPagePathname(pagePath),
+        routing,
+        integrationConfig.routingOverrides
+      );
+      if (mode !== 'auto') return mode === 'hash';
+
+      const reason = detectHashRouting(content, pagePath);
+      if (reason) {
+        logger.info(`Using hash routing for ${pagePath}: ${reason}`);
+      }
+      return !!reason;
+    };
+
+    // A custom rule is arbitrary code, so its output can't be cached
+    const cache =
+      integrationConfig.cache === false || rewriteOptions.url
+        ? undefined
+        : createPageCache(path.resolve(root, DEFAULT_CACHE_DIR));
+    // Links depend on which files exist, apart from the hashed ones in
+    // `_astro`, which always resolve the same way
+    const settings = cache?.key(
+      outputFiles
+        .filter((file) => !file.startsWith('_astro/'))
+        .sort()
+        .join('\n'),
+      format,
+      trailingSlash,
+      base,
+      rewriteOptions.attributes,
+      assetPattern.source
+    );
+    let unchanged = 0;
+
+    const pagesStart = performance.now();
+    await mapWithConcurrency(
+      [...pageRoutes],
+      concurrency,
+      async ([pagePath, route]) => {
+        const filePath = path.join(distDir, pagePath);
+        logger.debug(
+          `Processing ${pagePath} (${route ? route.route : 'no route'})`
+        );
+
+        try {
+          const file = await fs.readFile(filePath, 'utf-8');
+          const isHashRouting = isHashRoutingPage(file, pagePath);
+          const key = cache?.key(file, settings, pagePath, isHashRouting);
+
+          let page = key ? await cache?.get(key) : undefined;
+          let isFresh = false;
+          if (page) {
+            unchanged++;
+          } else {
+            const records: RewriteReportEntry[] = [];
+            const context: UrlRewriteContext = {
+              isHashRouting,
+              file: pagePath,
+              pageDir: path.posix.dirname(pagePath),
+              format,
+              trailingSlash,
+              base,
+              pages,
+              files,
+              record: (original, rewritten, rule) => {
+                records.push({ original, rewritten, rule });
+              },
+              assetPattern,
+              customRule: rewriteOptions.url,
+            };
+
+            page = {
+              output: rewriteHtml(
+                file,
+                createPageRewriteHandlers(context),
+                htmlOptions
+              ),
+              records,
+            };
+            isFresh = true;
+          }
+
+          if (page.output !== file) {
+            await fs.writeFile(filePath, page.output);
+          }
+          if (report && page.records.length > 0) {
+            report.set(pagePath, page.records);
+          }
+
+          if (key && isFresh) {
+            await cache
+              ?.set(key, page)
+              .catch((error) =>
+                logger.debug(`Could not cache ${pagePath}: ${error}`)
+              );
+          }
+        } catch (error) {
+          throw processingError(filePath, error);
+        }
+      }
+    );
+
+    logger.info(
+      `Processed ${pageRoutes.size} HTML files in ${elapsed(
+        pagesStart
+      )} (${unchanged} unchanged since the last build)`
+    );
+
+    await cache
+      ?.prune()
+      .catch((error) => logger.debug(`Could not prune the cache: ${error}`));
+
+    // Stylesheets emitted by Vite keep root-absolute references to files
+    // from public/, so make them relative to each stylesheet
+    const cssFiles = outputFiles.filter((file) => file.endsWith('.css'));
+
+    const cssStart = performance.now();
+    await mapWithConcurrency(cssFiles, concurrency, async (file) => {
+      const filePath = path.join(distDir, file);
+
+      try {
+        const css = await fs.readFile(filePath, 'utf-8');
+        const record = recordFor(file);
+        const updatedCss = rewriteCss(css, (url) => {
+          const custom = applyCustomRule(url, {
+            customRule: rewriteOptions.url,
+            record,
+            file,
+            isHashRouting: false,
+            base,
+          });
+          if (custom !== undefined) return custom;
+
+          const rewritten = rewriteRootRelativeUrl(
+            url,
+            path.posix.dirname(file),
+            base
+          );
+          if (rewritten !== url) record?.(url, rewritten, 'stylesheet');
+          return rewritten;
+        });
+
+        if (updatedCss !== css) {
+          await fs.writeFile(filePath, updatedCss);
+        }
+      } catch (error) {
+        throw processingError(filePath, error);
+      }
+    });
+
+    logger.info(
+      `Processed ${cssFiles.length} stylesheets in ${elapsed(cssStart)}`
+    );
+
+    if (report) {
+      const reportPath = path.resolve(
+        root,
+        typeof integrationConfig.report === 'string'
+          ? integrationConfig.report
+          : DEFAULT_REPORT_PATH
+      );
+      const summaryPath = await writeRewriteReport(report, reportPath);
+      logger.info(
+        `Wrote rewrite report to ${path.relative(
+          root,
+          reportPath
+        )} and ${path.relative(root, summaryPath)}`
+      );
+    }
+  };
+
+  return {
+    name: 'astro-electron-ts',
+    hooks: {
+      'astro:config:setup': ({
+        config,
+        command,
+        updateConfig,
+        injectScript,
+        addDevToolbarApp,
+        logger,
+      }: {
+        config: AstroConfig;
+        command: string;
+        updateConfig: (newConfig: Partial<AstroConfig>) => void;
+        injectScript: (stage: InjectedScriptStage, content: string) => void;
+        addDevToolbarApp?: (app: {
+          id: string;
+          name: string;
+          icon: string;
+          entrypoint: string;
+        }) => void;
+        logger: AstroIntegrationLogger;
+      }) => {
+        base = config.base;
+        mode = command === 'dev' ? 'development' : 'production';
+
+        // Read by `astro-electron-ts/client`; the build step fills in the
+        // page-specific parts
+        if (integrationConfig.clientConfig) {
+          injectScript(
+            'head-inline',
+            createRuntimeConfigScript({
+              format: config.build.format,
+              trailingSlash: config.trailingSlash,
+              base: config.base,
+            })
+          );
+        }
+
+        // Runs before any page script so plain browsers never see an
+        // undefined window.electronAPI
+        if (command === 'dev' && integrationConfig.browser) {
+          injectScript('head-inline', createBrowserApiScript());
+        }
+
+        if (command === 'dev' && isToolbarEnabled && addDevToolbarApp) {
+          addDevToolbarApp({
+            id: TOOLBAR_APP_ID,
+            name: 'Electron',
+            icon: TOOLBAR_ICON,
+            entrypoint: 'astro-electron-ts/toolbar',
+          });
+        }
+
+        // Root-absolute URLs resolve as-is under a custom protocol, so the
+        // relative base and fixed asset names are only needed for file://
+        if (command === 'build' && !isProtocolRouting) {
+          updateConfig({
             base: './',
-            build: {
-              modulePreload: false,
-              cssCodeSplit: true,
-              rollupOptions: {
-                output: {
-                  format: 'es',
-                  entryFileNames: '_astro/[name].[hash].js',
-                  chunkFileNames: '_astro/[name].[hash].js',
-                  assetFileNames: '_astro/[name].[hash][extname]',
+            vite: {
+              base: './',
+              build: {
+                modulePreload: false,
+                cssCodeSplit: true,
+                rollupOptions: {
+                  output: {
+                    format: 'es',
+                    entryFileNames: '_astro/[name].[hash].js',
+                    chunkFileNames: '_astro/[name].[hash].js',
+                    assetFileNames: '_astro/[name].[hash][extname]',
+                  },
                 },
               },
             },
+          });
+        }
+
+        // Expose the renderer output, windows and preload file names to the
+        // main process so custom outDir layouts keep working
+        const mainVite = integrationConfig?.main?.vite || config.vite;
+        const preloadVite = integrationConfig?.preload?.vite || config.vite;
+        const renderer = integrationConfig?.renderer as RendererOptions;
+
+        // Main and preload get their own `.env` prefix, so nothing meant for
+        // them is bundled into pages
+        checkEnvPrefix(envPrefix, config.vite?.envPrefix);
+        const envDefines = getEnvDefines({
+          dev: command === 'dev',
+          version: readPackageVersion(fileURLToPath(config.root)),
+          constants: integrationConfig.constants,
+        });
+
+        // Label build and runtime output instead of mixing it into the
+        // terminal as-is
+        const mainLogger = logger.fork(MAIN_LOGGER_LABEL);
+        const preloadLogger = logger.fork(PRELOAD_LOGGER_LABEL);
+
+        // Debuggers and `installSourceMapSupport` map bundle positions back to
+        // `electron/*.ts` through these
+        const sourcemap = resolveSourcemap(
+          integrationConfig.sourcemap,
+          command === 'dev'
+        );
+
+        electron = createElectronRunner({
+          dev: integrationConfig.dev,
+          logger: mainLogger,
+          preloadLogger,
+        });
+
+        // Add Vite plugin for Electron
+        updateConfig({
+          vite: {
+            plugins: [
+              vitePluginElectron([
+                {
+                  entry: integrationConfig?.main?.entry || 'electron/main.ts',
+                  onstart: () => electron?.onMainRebuilt(),
+                  vite: {
+                    ...mainVite,
+                    customLogger: createViteLogger(mainLogger),
+                    envPrefix,
+                    build: { sourcemap, ...mainVite?.build },
+                    define: {
+                      ...mainVite?.define,
+                      ...getMainDefines(config, integrationConfig),
+                      ...envDefines,
+                      // Where the main process reports to the dev toolbar
+                      'process.env.ASTRO_ELECTRON_DEVTOOLS': JSON.stringify(
+                        command === 'dev' && isToolbarEnabled
+                          ? DEVTOOLS_ENDPOINT
+                          : ''
+                      ),
+                    },
+                  },
+                },
+                ...createPreloadBuilds(
+                  normalizePreloadInput(integrationConfig?.preload?.input),
+                  {
+                    ...preloadVite,
+                    customLogger: createViteLogger(preloadLogger),
+                    envPrefix,
+                    build: { sourcemap, ...preloadVite?.build },
+                    define: { ...preloadVite?.define, ...envDefines },
+                  },
+                  integrationConfig?.preload?.format,
+                  // Windows reload when their own preload script changes
+                  () => electron?.onPreloadRebuilt()
+                ),
+              ]),
+              renderer &&
+                import('vite-plugin-electron-renderer').then((plugin) =>
+                  plugin.default(renderer)
+                ),
+            ],
           },
         });
-      }
+      },
+      'astro:config:done': async ({
+        config,
+        injectTypes,
+        logger,
+      }: {
+        config: AstroConfig;
+        // Only available since Astro 4.14
+        injectTypes?: (types: { filename: string; content: string }) => URL;
+        logger: AstroIntegrationLogger;
+      }) => {
+        format = config.build.format;
+        trailingSlash = config.trailingSlash;
+        root = fileURLToPath(config.root);
 
-      // Add Vite plugin for Electron
-      updateConfig({
-        vite: {
-          plugins: [
-            vitePluginElectron({
-              main: {
-                entry: integrationConfig?.main?.entry || 'electron/main.ts',
-                vite: integrationConfig?.main?.vite || config.vite,
-              },
-              preload: {
-                input:
-                  integrationConfig?.preload?.input || 'electron/preload.ts',
-                vite: integrationConfig?.preload?.vite || config.vite,
-              },
-              renderer: integrationConfig?.renderer as RendererOptions,
-            }),
-          ],
-        },
-      });
-    },
-    'astro:build:done': async ({
-      routes,
-    }: {
-      dir: URL;
-      routes: RouteData[];
-    }) => {
-      await Promise.all(
-        routes.map(async (route) => {
-          if (route.distURL) {
-            const absolutePath = route.distURL.pathname
-              .replace(/^\/([A-Za-z]:)/, '$1')
-              .replace(/^\//, '');
-
-            const projectRoot = process.cwd();
-            const relativePath = path.relative(projectRoot, absolutePath);
-            const normalizedPath = relativePath.replace(/\\/g, '/');
-
-            try {
-              const file = await fs.readFile(normalizedPath, 'utf-8');
-              const isHashRouting = isHashRoutingComponent(
-                file,
-                normalizedPath
-              );
+        if (integrationConfig.ipc) {
+          if (injectTypes) {
+            injectTypes({
+              filename: 'ipc.d.ts',
+              content: generateIpcDeclaration(root, integrationConfig.ipc),
+            });
+          } else {
+            logger.warn(
+              'Typing window.electronAPI from the IPC contract requires Astro 4.14 or later'
+            );
+          }
+        }
 
-              // First, fix the hydration script paths
-              let updatedContent = file.replace(
-                /\bhydrate=["']([^"']+)["']/g,
-                (_match, hydratePath) => {
-                  const cleanPath = hydratePath.replace(/^\/+/, '');
-                  if (cleanPath.startsWith('_astro/')) {
-                    return `hydrate="./_astro/${cleanPath.slice(6)}"`;
-                  }
-                  return `hydrate="./_astro/${cleanPath}"`;
-                }
-              );
+        const preloadInput = integrationConfig.preload?.input;
+        if (typeof preloadInput === 'object' && injectTypes) {
+          injectTypes({
+            filename: 'preloads.d.ts',
+            content: generatePreloadsDeclaration(Object.keys(preloadInput)),
+          });
+        }
 
-              // Then handle all other paths
-              updatedContent = updatedContent.replace(
-                /(href|src|to)="([^"]*?)"|import\s*\(['"](.*?)['"]\)/g,
-                (match, attr, pathname, importPath) => {
-                  // Handle dynamic imports
-                  if (importPath) {
-                    const cleanImportPath = importPath.replace(/^\/+/, '');
-                    if (
-                      cleanImportPath.startsWith('./') ||
-                      cleanImportPath.startsWith('../')
-                    ) {
-                      return match;
-                    }
-                    if (cleanImportPath.startsWith('_astro/')) {
-                      return `import("./_astro/${cleanImportPath.slice(6)}")`;
-                    }
-                    return `import("./_astro/${cleanImportPath}")`;
-                  }
-
-                  if (!pathname) return match;
-
-                  // Don't modify relative paths
-                  if (pathname.startsWith('./') || pathname.startsWith('../')) {
-                    return match;
-                  }
-
-                  // Clean the path
-                  const cleanPath = pathname.replace(/^\/+/, '');
-
-                  // Handle _astro directory assets
-                  if (cleanPath.startsWith('_astro/')) {
-                    return `${attr}="./_astro/${cleanPath.slice(6)}"`;
-                  }
-
-                  // Handle other assets
-                  const isAsset = cleanPath.match(
-                    /\.(js|css|png|jpg|jpeg|gif|svg|ico)$/
-                  );
-                  if (isAsset) {
-                    return `${attr}="./${cleanPath}"`;
-                  }
-
-                  // Handle hash routes specifically
-                  if (pathname.startsWith('/#/') || pathname.startsWith('#/')) {
-                    // Just preserve the hash route as-is
-                    return pathname.startsWith('/#/')
-                      ? `${attr}="${pathname.slice(1)}"`
-                      : match;
-                  }
-
-                  // Convert to hash routes only in hash-routing components
-                  if (isHashRouting) {
-                    const routePath = cleanPath.replace(/\/+$/, '');
-                    return `${attr}="#/${routePath}"`;
-                  }
-
-                  // For regular links in production, use absolute paths from dist
-                  const distPath = path
-                    .join(projectRoot, 'dist')
-                    .replace(/\\/g, '/');
-
-                  if (pathname === '/') {
-                    return `${attr}="file://${distPath}/index.html"`;
-                  }
-
-                  // For other paths, use absolute file:// URLs
-                  const targetPath = cleanPath.endsWith('.html')
-                    ? cleanPath
-                    : `${cleanPath}/index.html`;
-                  return `${attr}="file://${distPath}/${targetPath}"`;
-                }
-              );
+        if (integrationConfig.windows && injectTypes) {
+          injectTypes({
+            filename: 'windows.d.ts',
+            content: generateWindowsDeclaration(
+              Object.keys(integrationConfig.windows)
+            ),
+          });
+        }
 
-              // Fix any remaining absolute paths to _astro directory
-              updatedContent = updatedContent.replace(
-                /(['"])\/\.?\/_astro\//g,
-                '$1./_astro/'
-              );
+        const envDeclarationPath = path.join(root, ENV_DECLARATION_FILE);
+        await fs.mkdir(path.dirname(envDeclarationPath), { recursive: true });
+        await fs.writeFile(
+          envDeclarationPath,
+          generateEnvDeclaration(
+            integrationConfig.constants || {},
+            loadEnvNames(mode, config.vite?.envDir || root, envPrefix)
+          )
+        );
+      },
+      'astro:server:setup': ({
+        server,
+        logger,
+        toolbar,
+      }: {
+        server: ViteDevServer;
+        logger: AstroIntegrationLogger;
+        // Only available since Astro 4.7
+        toolbar?: ToolbarServer;
+      }) => {
+        if (integrationConfig.browser) {
+          const handlersPath =
+            typeof integrationConfig.browser === 'object'
+              ? integrationConfig.browser.handlers
+              : undefined;
+
+          server.middlewares.use(
+            BROWSER_API_ENDPOINT,
+            createBrowserApiMiddleware({
+              // Loaded through Vite so edits apply without a restart
+              loadHandlers: async () =>
+                handlersPath
+                  ? (
+                      await server.ssrLoadModule(
+                        path.resolve(root, handlersPath)
+                      )
+                    ).default
+                  : undefined,
+              logger,
+            })
+          );
+        }
+
+        if (isToolbarEnabled && toolbar) {
+          server.middlewares.use(
+            DEVTOOLS_ENDPOINT,
+            createDevStateMiddleware({
+              toolbar,
+              restart: async () => electron?.start(),
+              logger,
+            })
+          );
+        }
+      },
+      'astro:build:done': async ({
+        dir,
+        routes,
+        logger,
+      }: {
+        dir: URL;
+        routes: RouteData[];
+        logger: AstroIntegrationLogger;
+      }) => {
+        if (isProtocolRouting && !checkLinks) {
+          return;
+        }
+
+        const distDir = fileURLToPath(dir);
+        const outputFiles = (
+          await fs.readdir(distDir, { recursive: true })
+        ).map((file) => file.replace(/\\/g, '/'));
+
+        if (!isProtocolRouting) {
+          await rewriteOutput(distDir, outputFiles, routes, routing, logger);
+        }
 
-              await fs.writeFile(normalizedPath, updatedContent);
-            } catch (error) {
-              console.error(`Error processing file ${normalizedPath}:`, error);
-              throw error;
-            }
+        if (checkLinks) {
+          const linksStart = performance.now();
+          const brokenLinks = await checkOutputLinks(
+            distDir,
+            outputFiles,
+            concurrency,
+            routing,
+            htmlOptions
+          );
+          logger.info(`Checked links in ${elapsed(linksStart)}`);
+
+          for (const { file, line, url } of brokenLinks) {
+            logger.warn(
+              `${file}:${line}: ${url} does not resolve to a file in the build output`
+            );
           }
-        })
-      );
+
+          if (brokenLinks.length > 0 && integrationConfig.strictLinks) {
+            throw new Error(
+              `Found ${brokenLinks.length} unresolved local URL(s) in the build output`
+            );
+          }
+        }
+      },
     },
-  },
-});
+  };
+};
@@ -0,0 +1,41 @@
+import type {
+  IpcArgs,
+  IpcContract,
+  IpcEventChannel,
+  IpcInvokeChannel,
+  IpcPayload,
+  IpcResult,
+  IpcSpecOf,
+} from './contract.ts';
+
+export interface BrowserHandlerContext<C extends IpcContract<any>> {
+  // Sends an event to every browser tab connected to the dev server
+  send: <K extends IpcEventChannel<IpcSpecOf<C>>>(
+    channel: K,
+    ...args: IpcPayload<IpcSpecOf<C>, K>
+  ) => void;
+}
+
+// Node-side implementations of invoke channels, used when the dev server is
+// opened in a plain browser. Channels without one reject in the browser
+export type BrowserHandlers<C extends IpcContract<any>> = {
+  [K in IpcInvokeChannel<IpcSpecOf<C>>]?: (
+    ...args: IpcArgs<IpcSpecOf<C>, K>
+  ) => IpcResult<IpcSpecOf<C>, K> | Promise<IpcResult<IpcSpecOf<C>, K>>;
+};
+
+export type BrowserHandlersModule<C extends IpcContract<any>> =
+  | BrowserHandlers<C>
+  | ((context: BrowserHandlerContext<C>) => BrowserHandlers<C>);
+
+/**
+ * Types the handlers (or mocks) the dev server answers browser-mode IPC
+ * calls with. Default-export the result from the module set as
+ * `browser.handlers`.
+ */
+export function defineBrowserHandlers<C extends IpcContract<any>>(
+  _contract: C,
+  handlers: BrowserHandlersModule<C>
+): BrowserHandlersModule<C> {
+  return handlers;
+}
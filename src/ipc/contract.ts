@@ -0,0 +1,92 @@
+// Request/response channels, called from the renderer with `invoke`
+export type IpcInvokeMap = Record<string, (...args: any[]) => unknown>;
+// Events sent from main to the renderer, keyed by channel with their payload
+export type IpcEventMap = Record<string, unknown[]>;
+
+export interface IpcSpec {
+  invoke?: IpcInvokeMap;
+  events?: IpcEventMap;
+}
+
+export type IpcInvoke<S extends IpcSpec> = S['invoke'] extends IpcInvokeMap
+  ? S['invoke']
+  : {};
+export type IpcEvents<S extends IpcSpec> = S['events'] extends IpcEventMap
+  ? S['events']
+  : {};
+
+export type IpcInvokeChannel<S extends IpcSpec> = keyof IpcInvoke<S> & string;
+export type IpcEventChannel<S extends IpcSpec> = keyof IpcEvents<S> & string;
+
+// Arguments and resolved result of an invoke channel
+export type IpcArgs<
+  S extends IpcSpec,
+  K extends IpcInvokeChannel<S>
+> = IpcInvoke<S>[K] extends (...args: infer A) => unknown ? A : never;
+export type IpcResult<
+  S extends IpcSpec,
+  K extends IpcInvokeChannel<S>
+> = IpcInvoke<S>[K] extends (...args: any[]) => infer R ? Awaited<R> : never;
+
+// Payload of an event channel
+export type IpcPayload<
+  S extends IpcSpec,
+  K extends IpcEventChannel<S>
+> = IpcEvents<S>[K] extends infer P extends unknown[] ? P : never;
+
+// Every channel of a spec, listed once so the bridge can be built at runtime
+export interface IpcChannels<S extends IpcSpec> {
+  invoke: Record<IpcInvokeChannel<S>, true>;
+  events: Record<IpcEventChannel<S>, true>;
+}
+
+export interface IpcContract<S extends IpcSpec = IpcSpec> {
+  readonly invoke: readonly IpcInvokeChannel<S>[];
+  readonly events: readonly IpcEventChannel<S>[];
+  // Never set; carries the spec so the helpers can infer payload types
+  readonly spec?: S;
+}
+
+// Infers the spec behind a contract
+export type IpcSpecOf<C> = C extends IpcContract<infer S> ? S : never;
+
+// `window.electronAPI` as exposed by `exposeIpc`
+export type IpcRendererApi<C extends IpcContract<any>> = {
+  [K in IpcInvokeChannel<IpcSpecOf<C>>]: (
+    ...args: IpcArgs<IpcSpecOf<C>, K>
+  ) => Promise<IpcResult<IpcSpecOf<C>, K>>;
+} & {
+  // Subscribes to an event and returns a function that unsubscribes
+  on: <K extends IpcEventChannel<IpcSpecOf<C>>>(
+    channel: K,
+    listener: (...args: IpcPayload<IpcSpecOf<C>, K>) => void
+  ) => () => void;
+};
+
+/**
+ * Declares the IPC channels shared by main, preload and the renderer. The
+ * payload types come from the type argument; the object lists the channel
+ * names so they are known at runtime too:
+ *
+ * ```ts
+ * export default defineIpcContract<{
+ *   invoke: { getCurrentTime: () => string };
+ *   events: { tick: [time: string] };
+ * }>({ invoke: { getCurrentTime: true }, events: { tick: true } });
+ * ```
+ */
+export function defineIpcContract<S extends IpcSpec>(
+  channels: IpcChannels<S>
+): IpcContract<S> {
+  const invoke = Object.keys(channels.invoke) as IpcInvokeChannel<S>[];
+  if (invoke.includes('on' as IpcInvokeChannel<S>)) {
+    throw new Error(
+      '"on" is reserved for event subscriptions and cannot be an invoke channel'
+    );
+  }
+
+  return {
+    invoke,
+    events: Object.keys(channels.events) as IpcEventChannel<S>[],
+  };
+}
@@ -0,0 +1,23 @@
+export {
+  defineIpcContract,
+  type IpcArgs,
+  type IpcChannels,
+  type IpcContract,
+  type IpcEventChannel,
+  type IpcEventMap,
+  type IpcEvents,
+  type IpcInvoke,
+  type IpcInvokeChannel,
+  type IpcInvokeMap,
+  type IpcPayload,
+  type IpcRendererApi,
+  type IpcResult,
+  type IpcSpec,
+  type IpcSpecOf,
+} from './contract.ts';
+export {
+  defineBrowserHandlers,
+  type BrowserHandlerContext,
+  type BrowserHandlers,
+  type BrowserHandlersModule,
+} from './browser.ts';
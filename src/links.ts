@@ -0,0 +1,127 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { findCssUrls } from './css.ts';
+import { rewriteHtml, type HtmlRewriteOptions } from './html.ts';
+import { mapWithConcurrency } from './pool.ts';
+import { isLocalUrl } from './rewrite.ts';
+import type { RoutingMode } from './routing.ts';
+
+export interface BrokenLink {
+  // File the link was found in, relative to dist
+  file: string;
+  line: number;
+  url: string;
+}
+
+/**
+ * Whether a local URL points at a file in the build output. Relative URLs
+ * are resolved from `fromDir`, root-absolute ones from the dist root, with
+ * the same index resolution a static server would use. Without
+ * `servesRoot`, i.e. when pages are loaded from `file://`, root-absolute
+ * URLs point at the filesystem root and never resolve.
+ */
+export function resolvesToOutput(
+  url: string,
+  fromDir: string,
+  outputFiles: Set<string>,
+  servesRoot = true
+): boolean {
+  // Hash routes are resolved by the client-side router
+  if (!isLocalUrl(url) || url.startsWith('#')) return true;
+
+  const pathname = url.replace(/[?#].*$/s, '');
+  if (!pathname) return true;
+
+  let decoded: string;
+  try {
+    decoded = decodeURI(pathname);
+  } catch {
+    return false;
+  }
+
+  if (decoded.startsWith('/') && !servesRoot) return false;
+
+  const target = decoded.startsWith('/')
+    ? path.posix.normalize(decoded.slice(1))
+    : path.posix.join(fromDir, decoded);
+  if (target.startsWith('../')) return false;
+
+  const base = target.replace(/\/$/, '').replace(/^\.$/, '');
+  const candidates = decoded.endsWith('/')
+    ? [path.posix.join(base, 'index.html')]
+    : [base, `${base}.html`, path.posix.join(base, 'index.html')];
+
+  return candidates.some((candidate) => outputFiles.has(candidate));
+}
+
+// Finds local URLs in a built HTML or CSS file that don't resolve to a file
+// in the build output
+export function findBrokenLinks(
+  file: string,
+  content: string,
+  outputFiles: Set<string>,
+  options?: HtmlRewriteOptions,
+  servesRoot = true
+): BrokenLink[] {
+  const fromDir = path.posix.dirname(file);
+  const broken: BrokenLink[] = [];
+
+  const check = (url: string, line: number) => {
+    if (!resolvesToOutput(url, fromDir, outputFiles, servesRoot)) {
+      broken.push({ file, line, url });
+    }
+  };
+
+  const checkCss = (css: string, startLine: number) => {
+    for (const { url, line } of findCssUrls(css)) {
+      check(url, startLine + line - 1);
+    }
+    return css;
+  };
+
+  if (file.endsWith('.css')) {
+    checkCss(content, 1);
+  } else {
+    rewriteHtml(
+      content,
+      {
+        url: (url, _attribute, _element, line) => {
+          check(url, line);
+          return url;
+        },
+        style: checkCss,
+      },
+      options
+    );
+  }
+
+  return broken;
+}
+
+// Checks every HTML and CSS file in the build output. Only the custom
+// protocol serves dist as the root that root-absolute URLs resolve against
+export async function checkOutputLinks(
+  distDir: string,
+  outputFiles: string[],
+  concurrency: number,
+  routing: RoutingMode,
+  options?: HtmlRewriteOptions
+): Promise<BrokenLink[]> {
+  const files = new Set(outputFiles);
+  const servesRoot = routing === 'protocol';
+  const results = await mapWithConcurrency(
+    outputFiles.filter(
+      (file) => file.endsWith('.html') || file.endsWith('.css')
+    ),
+    concurrency,
+    async (file) =>
+      findBrokenLinks(
+        file,
+        await fs.readFile(path.join(distDir, file), 'utf-8'),
+        files,
+        options,
+        servesRoot
+      )
+  );
+  return results.flat();
+}
@@ -0,0 +1,51 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { BrowserWindow } from 'electron';
+
+// Marks lines of the main process output that `astro dev` logs as preload
+// output
+export const PRELOAD_OUTPUT_PREFIX = '[astro-electron:preload] ';
+
+// `console-message` levels: verbose, info, warning, error
+const WARNING_LEVEL = 2;
+
+function toPath(sourceId: string): string {
+  return sourceId.startsWith('file:') ? fileURLToPath(sourceId) : sourceId;
+}
+
+function writePreloadOutput(message: string, isWarning: boolean): void {
+  const stream = isWarning ? process.stderr : process.stdout;
+  for (const line of message.split('\n')) {
+    stream.write(`${PRELOAD_OUTPUT_PREFIX}${line}\n`);
+  }
+}
+
+/**
+ * During `astro dev`, writes what a window's preload script logs to the
+ * console, and errors loading it, to the main process output, so they show
+ * up in the terminal. Messages are matched by their source file, so logs
+ * from the page itself stay in DevTools.
+ */
+export function forwardPreloadConsole(
+  win: BrowserWindow,
+  preload: string
+): void {
+  if (!process.env.VITE_DEV_SERVER_URL) return;
+
+  const preloadPath = path.resolve(preload);
+  win.webContents.on(
+    'console-message',
+    (_event, level, message, _line, sourceId) => {
+      if (!sourceId || path.resolve(toPath(sourceId)) !== preloadPath) return;
+      writePreloadOutput(message, level >= WARNING_LEVEL);
+    }
+  );
+  win.webContents.on('preload-error', (_event, failedPath, error) => {
+    writePreloadOutput(
+      `Error: Unable to load preload script ${failedPath}: ${
+        error.stack || error
+      }`,
+      true
+    );
+  });
+}
@@ -0,0 +1,100 @@
+import { BrowserWindow } from 'electron';
+import {
+  MAX_IPC_CALLS,
+  type DevIpcCall,
+  type ElectronDevState,
+} from '../toolbar/state.ts';
+
+const windowNames = new Map<number, string>();
+const trackedWindows = new Set<number>();
+const ipcCalls: DevIpcCall[] = [];
+let pendingReport: ReturnType<typeof setTimeout> | undefined;
+
+// Where state is posted for the dev toolbar. `ASTRO_ELECTRON_DEVTOOLS` is
+// only defined by the integration during `astro dev`
+function getDevtoolsUrl(): string | undefined {
+  const endpoint = process.env.ASTRO_ELECTRON_DEVTOOLS;
+  const devServerUrl = process.env.VITE_DEV_SERVER_URL;
+  return endpoint && devServerUrl
+    ? new URL(endpoint, devServerUrl).href
+    : undefined;
+}
+
+export function isDevtoolsEnabled(): boolean {
+  return !!getDevtoolsUrl();
+}
+
+// Payloads can hold anything IPC can clone, so keep only what survives JSON
+function toJson(value: unknown): unknown {
+  try {
+    return JSON.parse(JSON.stringify(value ?? null));
+  } catch {
+    return '[unserializable]';
+  }
+}
+
+export function getDevState(): ElectronDevState {
+  return {
+    versions: {
+      electron: process.versions.electron,
+      chrome: process.versions.chrome,
+      node: process.versions.node,
+    },
+    windows: BrowserWindow.getAllWindows()
+      .filter((win) => !win.isDestroyed())
+      .map((win) => ({
+        id: win.id,
+        name: windowNames.get(win.id),
+        title: win.getTitle(),
+        url: win.webContents.getURL(),
+      })),
+    ipc: [...ipcCalls],
+  };
+}
+
+// Posts the state to the dev server, batching changes that happen together
+function reportDevState(): void {
+  const url = getDevtoolsUrl();
+  if (!url || pendingReport) return;
+
+  pendingReport = setTimeout(() => {
+    pendingReport = undefined;
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(getDevState()),
+    }).catch(() => {
+      // The dev server is gone or restarting
+    });
+  }, 100);
+}
+
+// Keeps the toolbar's window list current
+export function trackWindow(win: BrowserWindow, name?: string): void {
+  if (!isDevtoolsEnabled()) return;
+
+  const { id } = win;
+  if (name) windowNames.set(id, name);
+
+  if (!trackedWindows.has(id)) {
+    trackedWindows.add(id);
+    win.on('page-title-updated', reportDevState);
+    win.webContents.on('did-navigate', reportDevState);
+    win.webContents.on('did-navigate-in-page', reportDevState);
+    win.on('closed', () => {
+      trackedWindows.delete(id);
+      windowNames.delete(id);
+      reportDevState();
+    });
+  }
+
+  reportDevState();
+}
+
+export function recordIpcCall(call: DevIpcCall): void {
+  if (!isDevtoolsEnabled()) return;
+
+  ipcCalls.push({ ...call, args: toJson(call.args) });
+  if (ipcCalls.length > MAX_IPC_CALLS) ipcCalls.shift();
+  reportDevState();
+}
@@ -0,0 +1,30 @@
+export {
+  serveAppProtocol,
+  createProtocolHandler,
+  resolveRequestPath,
+  getMimeType,
+  DEFAULT_PROTOCOL_SCHEME,
+  DEFAULT_PROTOCOL_HOST,
+  type AppProtocolOptions,
+} from './protocol.ts';
+export { handleIpc, sendIpcEvent, type IpcHandlers } from './ipc.ts';
+export {
+  createAppWindow,
+  loadRoute,
+  resolveRouteFile,
+  getRendererDir,
+  getPreloadPath,
+  getPreloadFiles,
+  type AppWindowOptions,
+  type PreloadName,
+  type PreloadRegistry,
+} from './window.ts';
+export {
+  openWindow,
+  getWindow,
+  getWindowConfigs,
+  type AppWindowConfig,
+  type WindowName,
+  type WindowRegistry,
+} from './registry.ts';
+export { installSourceMapSupport } from './stack.ts';
@@ -0,0 +1,77 @@
+import { ipcMain, type IpcMainInvokeEvent, type WebContents } from 'electron';
+import type {
+  IpcArgs,
+  IpcContract,
+  IpcEventChannel,
+  IpcInvokeChannel,
+  IpcPayload,
+  IpcResult,
+  IpcSpecOf,
+} from '../ipc/contract.ts';
+import { isDevtoolsEnabled, recordIpcCall } from './devtools.ts';
+
+// One implementation per invoke channel of a contract
+export type IpcHandlers<C extends IpcContract<any>> = {
+  [K in IpcInvokeChannel<IpcSpecOf<C>>]: (
+    event: IpcMainInvokeEvent,
+    ...args: IpcArgs<IpcSpecOf<C>, K>
+  ) => IpcResult<IpcSpecOf<C>, K> | Promise<IpcResult<IpcSpecOf<C>, K>>;
+};
+
+/**
+ * Registers `ipcMain.handle` for every invoke channel of a contract. Returns
+ * a function that removes the handlers again.
+ */
+export function handleIpc<C extends IpcContract<any>>(
+  contract: C,
+  handlers: IpcHandlers<C>
+): () => void {
+  const channels = contract.invoke as IpcInvokeChannel<IpcSpecOf<C>>[];
+
+  for (const channel of channels) {
+    ipcMain.handle(channel, async (event, ...args) => {
+      const channelArgs = args as IpcArgs<IpcSpecOf<C>, typeof channel>;
+      if (!isDevtoolsEnabled()) {
+        return handlers[channel](event, ...channelArgs);
+      }
+
+      // Timed for the dev toolbar
+      const time = Date.now();
+      const start = performance.now();
+      let error: string | undefined;
+      try {
+        return await handlers[channel](event, ...channelArgs);
+      } catch (caught) {
+        error = String(caught);
+        throw caught;
+      } finally {
+        recordIpcCall({
+          channel,
+          args,
+          duration: performance.now() - start,
+          time,
+          error,
+        });
+      }
+    });
+  }
+
+  return () => {
+    for (const channel of channels) {
+      ipcMain.removeHandler(channel);
+    }
+  };
+}
+
+// Sends a contract event to a renderer
+export function sendIpcEvent<
+  C extends IpcContract<any>,
+  K extends IpcEventChannel<IpcSpecOf<C>>
+>(
+  target: WebContents,
+  _contract: C,
+  channel: K,
+  ...args: IpcPayload<IpcSpecOf<C>, K>
+): void {
+  target.send(channel, ...args);
+}
@@ -0,0 +1,163 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { app, protocol } from 'electron';
+
+export const DEFAULT_PROTOCOL_SCHEME = 'app';
+export const DEFAULT_PROTOCOL_HOST = 'localhost';
+
+export interface AppProtocolOptions {
+  // Directory holding the built renderer (Astro's outDir)
+  directory: string;
+  // Scheme to register, without `://`. Defaults to `app`
+  scheme?: string;
+  // Host used in renderer URLs. Defaults to `localhost`
+  host?: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.wasm': 'application/wasm',
+  '.pdf': 'application/pdf',
+};
+
+export function getMimeType(filePath: string): string {
+  return (
+    MIME_TYPES[path.extname(filePath).toLowerCase()] ||
+    'application/octet-stream'
+  );
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Maps a request pathname onto a file inside `directory`, trying the same
+// index resolution Astro's static output relies on
+export async function resolveRequestPath(
+  directory: string,
+  pathname: string
+): Promise<string | undefined> {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return undefined;
+  }
+
+  const root = path.resolve(directory);
+  const target = path.join(root, decoded);
+
+  // Never serve anything outside the renderer directory
+  const relative = path.relative(root, target);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return undefined;
+  }
+
+  const candidates = decoded.endsWith('/')
+    ? [path.join(target, 'index.html')]
+    : [target, `${target}.html`, path.join(target, 'index.html')];
+
+  for (const candidate of candidates) {
+    if (await isFile(candidate)) {
+      return candidate;
+    }
+  }
+
+  return undefined;
+}
+
+export function createProtocolHandler(
+  directory: string
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response(null, { status: 405 });
+    }
+
+    const { pathname } = new URL(request.url);
+    const filePath = await resolveRequestPath(directory, pathname);
+
+    if (filePath) {
+      const body =
+        request.method === 'HEAD' ? null : await fs.readFile(filePath);
+      return new Response(body, {
+        status: 200,
+        headers: { 'Content-Type': getMimeType(filePath) },
+      });
+    }
+
+    // Fall back to Astro's 404 page when the project has one
+    const notFoundPage = path.join(directory, '404.html');
+    if (await isFile(notFoundPage)) {
+      return new Response(await fs.readFile(notFoundPage), {
+        status: 404,
+        headers: { 'Content-Type': MIME_TYPES['.html'] },
+      });
+    }
+
+    return new Response('Not Found', {
+      status: 404,
+      headers: { 'Content-Type': MIME_TYPES['.txt'] },
+    });
+  };
+}
+
+/**
+ * Registers a privileged, standard scheme that serves the built renderer.
+ * Must be called before the app's `ready` event. Returns the base URL to load,
+ * e.g. `app://localhost/`.
+ */
+export function serveAppProtocol(options: AppProtocolOptions): string {
+  const scheme = options.scheme || DEFAULT_PROTOCOL_SCHEME;
+  const host = options.host || DEFAULT_PROTOCOL_HOST;
+
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme,
+      privileges: {
+        standard: true,
+        secure: true,
+        supportFetchAPI: true,
+        corsEnabled: true,
+        stream: true,
+        codeCache: true,
+      },
+    },
+  ]);
+
+  app.whenReady().then(() => {
+    protocol.handle(scheme, createProtocolHandler(options.directory));
+  });
+
+  return `${scheme}://${host}/`;
+}
@@ -0,0 +1,85 @@
+import type { BrowserWindow, BrowserWindowConstructorOptions } from 'electron';
+import { trackWindow } from './devtools.ts';
+import {
+  createAppWindow,
+  getPreloadPath,
+  type AppWindowOptions,
+  type PreloadName,
+} from './window.ts';
+
+export interface AppWindowConfig {
+  // Astro route the window shows, e.g. `/preferences`
+  route: string;
+  width?: number;
+  height?: number;
+  // Name of a `preload.input` entry, or a file relative to the main
+  // process output. Defaults to the `preload` entry
+  preload?: string;
+  // Any other `BrowserWindow` options. Must be JSON-serializable
+  options?: BrowserWindowConstructorOptions;
+}
+
+// Filled in with the configured window names by the types the integration
+// generates from its `windows` option
+export interface WindowRegistry {}
+
+export type WindowName = keyof WindowRegistry extends never
+  ? string
+  : keyof WindowRegistry & string;
+
+const openWindows = new Map<string, BrowserWindow>();
+
+// The `windows` option, defined into the main process build by the
+// integration
+export function getWindowConfigs(): Record<string, AppWindowConfig> {
+  return JSON.parse(process.env.ASTRO_ELECTRON_WINDOWS || '{}');
+}
+
+export function getWindow(name: WindowName): BrowserWindow | undefined {
+  const win = openWindows.get(name);
+  return win && !win.isDestroyed() ? win : undefined;
+}
+
+/**
+ * Opens a window from the integration's `windows` option, loading its route
+ * from the dev server or the built pages. A window that's already open is
+ * focused instead. `overrides` are applied over the configured options.
+ */
+export function openWindow(
+  name: WindowName,
+  overrides: AppWindowOptions = {}
+): BrowserWindow {
+  const existing = getWindow(name);
+  if (existing) {
+    if (existing.isMinimized()) existing.restore();
+    existing.focus();
+    return existing;
+  }
+
+  const config = getWindowConfigs()[name];
+  if (!config) {
+    throw new Error(
+      `Unknown window "${name}". Add it to the \`windows\` option of the astro-electron-ts integration.`
+    );
+  }
+
+  const { route, width, height, preload, options } = config;
+  const win = createAppWindow({
+    ...options,
+    route,
+    ...(width !== undefined && { width }),
+    ...(height !== undefined && { height }),
+    ...overrides,
+    webPreferences: {
+      ...options?.webPreferences,
+      ...(preload && { preload: getPreloadPath(preload as PreloadName) }),
+      ...overrides.webPreferences,
+    },
+  });
+
+  trackWindow(win, name);
+  openWindows.set(name, win);
+  win.on('closed', () => openWindows.delete(name));
+
+  return win;
+}
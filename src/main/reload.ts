@@ -0,0 +1,58 @@
+import { watch, type FSWatcher } from 'fs';
+import type { BrowserWindow } from 'electron';
+
+interface PreloadWatcher {
+  watcher: FSWatcher;
+  windows: Set<BrowserWindow>;
+}
+
+const preloadWatchers = new Map<string, PreloadWatcher>();
+
+// Waits for a build to finish writing the file
+const RELOAD_DELAY = 100;
+
+/**
+ * During `astro dev`, reloads a window when its preload script is rebuilt,
+ * leaving windows with other preload scripts and the main process alone.
+ */
+export function reloadOnPreloadChange(
+  win: BrowserWindow,
+  preload: string
+): void {
+  if (!process.env.VITE_DEV_SERVER_URL) return;
+
+  let entry = preloadWatchers.get(preload);
+  if (!entry) {
+    const windows = new Set<BrowserWindow>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(preload, () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          for (const target of windows) {
+            target.webContents.reloadIgnoringCache();
+          }
+        }, RELOAD_DELAY);
+      });
+    } catch {
+      // Not built yet, or not a file this process can watch
+      return;
+    }
+    watcher.unref();
+
+    entry = { watcher, windows };
+    preloadWatchers.set(preload, entry);
+  }
+
+  const { windows, watcher } = entry;
+  windows.add(win);
+  win.on('closed', () => {
+    windows.delete(win);
+    if (windows.size === 0) {
+      watcher.close();
+      preloadWatchers.delete(preload);
+    }
+  });
+}
@@ -0,0 +1,143 @@
+import { readdirSync, readFileSync } from 'fs';
+import { findSourceMap, SourceMap, type SourceMapPayload } from 'module';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const SOURCE_MAPPING_URL = /\/\/[#@] sourceMappingURL=(\S+)\s*$/;
+const SCRIPT_FILE = /\.[cm]?js$/;
+
+// Maps of files loaded before Node's own source map support was enabled,
+// which it never reads
+const loadedSourceMaps = new Map<string, SourceMap>();
+
+function readSourceMapPayload(file: string): SourceMapPayload | undefined {
+  const url = SOURCE_MAPPING_URL.exec(readFileSync(file, 'utf-8'))?.[1];
+  if (!url) return undefined;
+
+  if (url.startsWith('data:')) {
+    const [meta, data] = url.slice('data:'.length).split(',', 2);
+    return JSON.parse(
+      meta.endsWith(';base64')
+        ? Buffer.from(data, 'base64').toString('utf-8')
+        : decodeURIComponent(data)
+    );
+  }
+  return JSON.parse(
+    readFileSync(path.resolve(path.dirname(file), url), 'utf-8')
+  );
+}
+
+/**
+ * Reads the source maps of the scripts in `directory` up front, so stack
+ * traces can be mapped without touching the disk.
+ */
+export function loadSourceMaps(directory: string): void {
+  let names: string[];
+  try {
+    names = readdirSync(directory);
+  } catch {
+    return;
+  }
+
+  for (const name of names) {
+    if (!SCRIPT_FILE.test(name)) continue;
+
+    const file = path.join(directory, name);
+    try {
+      const payload = readSourceMapPayload(file);
+      if (payload) loadedSourceMaps.set(file, new SourceMap(payload));
+    } catch {
+      // Unreadable file or malformed map: keep the bundled positions
+    }
+  }
+}
+
+function toPath(fileName: string): string {
+  return fileName.startsWith('file:') ? fileURLToPath(fileName) : fileName;
+}
+
+// `file:line:column` of a call site in the original source, if it's mapped
+export function mapPosition(
+  fileName: string,
+  line: number,
+  column: number
+): string | undefined {
+  const file = toPath(fileName);
+  if (!path.isAbsolute(file)) return undefined;
+
+  const loaded = loadedSourceMaps.get(file);
+  const sourceMap = loaded || findSourceMap(fileName);
+  const entry = sourceMap?.findEntry(line - 1, column - 1);
+  if (!entry || !('originalSource' in entry)) return undefined;
+
+  // Node resolves the sources of the maps it loads itself
+  const source =
+    loaded && !entry.originalSource.startsWith('file:')
+      ? path.resolve(
+          path.dirname(file),
+          loaded.payload.sourceRoot || '',
+          entry.originalSource
+        )
+      : toPath(entry.originalSource);
+  return `${source}:${entry.originalLine + 1}:${entry.originalColumn + 1}`;
+}
+
+function formatCallSite(callSite: NodeJS.CallSite): string {
+  // Keeps V8's own markers such as `async` and `new`
+  const frame = callSite.toString();
+  const fileName = callSite.getFileName();
+  const line = callSite.getLineNumber();
+  const column = callSite.getColumnNumber();
+  if (!fileName || line === null || column === null) return frame;
+
+  const mapped = mapPosition(fileName, line, column);
+  return mapped
+    ? frame.replace(`${fileName}:${line}:${column}`, mapped)
+    : frame;
+}
+
+// File of the code that called `installSourceMapSupport`
+function getCallerFile(): string | undefined {
+  const previous = Error.prepareStackTrace;
+  try {
+    Error.prepareStackTrace = (_error, callSites) => callSites;
+    const callSites = new Error().stack as unknown as NodeJS.CallSite[];
+    return callSites[2]?.getFileName() || undefined;
+  } finally {
+    Error.prepareStackTrace = previous;
+  }
+}
+
+/**
+ * Formats stack traces with positions in the original sources, so errors
+ * logged by the main process point at `electron/main.ts` rather than the
+ * bundle. Needs the build's source maps (see the integration's `sourcemap`
+ * option); frames without one are left as they are. Call it first thing in
+ * the main process.
+ *
+ * Node's own source map support is enabled for everything loaded later, but
+ * it skips files that are already running, such as the bundle calling this.
+ * Their maps, and those of the scripts next to them, are read here once.
+ * Returns a function that restores the previous formatting.
+ */
+export function installSourceMapSupport(): () => void {
+  const previous = Error.prepareStackTrace;
+  const wasEnabled = process.sourceMapsEnabled;
+
+  process.setSourceMapsEnabled(true);
+  const callerFile = getCallerFile();
+  if (callerFile) {
+    loadSourceMaps(path.dirname(toPath(callerFile)));
+  }
+
+  Error.prepareStackTrace = (error, callSites) =>
+    [
+      String(error),
+      ...callSites.map((callSite) => `    at ${formatCallSite(callSite)}`),
+    ].join('\n');
+
+  return () => {
+    Error.prepareStackTrace = previous;
+    process.setSourceMapsEnabled(wasEnabled);
+  };
+}
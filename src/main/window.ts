@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  BrowserWindow,
+  shell,
+  type BrowserWindowConstructorOptions,
+} from 'electron';
+import { forwardPreloadConsole } from './console.ts';
+import { trackWindow } from './devtools.ts';
+import { reloadOnPreloadChange } from './reload.ts';
+
+export interface AppWindowOptions extends BrowserWindowConstructorOptions {
+  // Astro route to load, e.g. `/settings` or `/#/settings`. Defaults to `/`
+  route?: string;
+  // Base URL of the built renderer when it's served through a custom
+  // protocol, i.e. the return value of `serveAppProtocol`. Built pages are
+  // loaded from disk otherwise
+  baseUrl?: string;
+  // Open links to other sites in the default browser instead of a new
+  // Electron window. Defaults to `true`
+  openExternalLinks?: boolean;
+}
+
+// This module is bundled into the main process entry, so its location is
+// the main process output directory (`dist-electron`)
+function getMainDir(): string {
+  return path.dirname(fileURLToPath(import.meta.url));
+}
+
+// Built renderer directory. `ASTRO_ELECTRON_RENDERER_DIR` is defined by the
+// integration from Astro's outDir
+export function getRendererDir(): string {
+  const appRoot = process.env.APP_ROOT || path.join(getMainDir(), '..');
+  return path.join(appRoot, process.env.ASTRO_ELECTRON_RENDERER_DIR || 'dist');
+}
+
+// Filled in with the names of `preload.input` entries by the types the
+// integration generates
+export interface PreloadRegistry {}
+
+export type PreloadName = keyof PreloadRegistry extends never
+  ? string
+  : keyof PreloadRegistry & string;
+
+// Preload scripts by name with the file each was built to.
+// `ASTRO_ELECTRON_PRELOADS` is defined by the integration from `preload.input`
+export function getPreloadFiles(): Record<string, string> {
+  return JSON.parse(process.env.ASTRO_ELECTRON_PRELOADS || '{}');
+}
+
+/**
+ * Path of a preload script built next to the main process entry. `name` is
+ * an entry of `preload.input`; a file name such as `preload.cjs` also works.
+ * Defaults to the `preload` entry, or the first one.
+ */
+export function getPreloadPath(name?: PreloadName): string {
+  // `ASTRO_ELECTRON_PRELOAD` is the default preload's file, so the
+  // extension `preload.format` gives it is never hardcoded
+  const file = name
+    ? getPreloadFiles()[name] || name
+    : process.env.ASTRO_ELECTRON_PRELOAD || 'preload.cjs';
+
+  return path.join(getMainDir(), file);
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Finds the HTML file Astro built for a route, whatever `build.format` was
+export function resolveRouteFile(
+  rendererDir: string,
+  pathname: string
+): string {
+  const routePath = decodeURIComponent(pathname).replace(/^\/+|\/+$/g, '');
+  if (!routePath) return path.join(rendererDir, 'index.html');
+
+  const target = path.join(rendererDir, routePath);
+  const candidates = [
+    target,
+    `${target}.html`,
+    path.join(target, 'index.html'),
+  ];
+  return (
+    candidates.find(isFile) ||
+    // Let loadFile report the missing page
+    path.join(target, 'index.html')
+  );
+}
+
+/**
+ * Loads an Astro route into a window: from the dev server during
+ * development, and from the built renderer (or `baseUrl`) in production.
+ */
+export function loadRoute(
+  win: BrowserWindow,
+  route = '/',
+  baseUrl?: string
+): Promise<void> {
+  const devServerUrl = process.env.VITE_DEV_SERVER_URL;
+  const serverUrl = devServerUrl || baseUrl;
+
+  if (serverUrl) {
+    const base = serverUrl.endsWith('/') ? serverUrl : `${serverUrl}/`;
+    return win.loadURL(new URL(route.replace(/^\/+/, ''), base).href);
+  }
+
+  const url = new URL(route, 'file:///');
+  return win.loadFile(resolveRouteFile(getRendererDir(), url.pathname), {
+    query: Object.fromEntries(url.searchParams),
+    hash: url.hash.slice(1) || undefined,
+  });
+}
+
+/**
+ * Creates a `BrowserWindow` with secure defaults and the app's preload
+ * script, then loads `route` into it. Any `BrowserWindow` option can be
+ * passed; `webPreferences` are merged over the defaults.
+ */
+export function createAppWindow(options: AppWindowOptions = {}): BrowserWindow {
+  const {
+    route,
+    baseUrl,
+    openExternalLinks = true,
+    webPreferences,
+    ...windowOptions
+  } = options;
+  const preload = webPreferences?.preload || getPreloadPath();
+
+  const win = new BrowserWindow({
+    ...windowOptions,
+    webPreferences: {
+      preload,
+      contextIsolation: true,
+      nodeIntegration: false,
+      webSecurity: true,
+      // Sandboxed renderers can't load ES module preload scripts
+      sandbox: !preload.endsWith('.mjs'),
+      ...webPreferences,
+    },
+  });
+
+  if (openExternalLinks) {
+    win.webContents.setWindowOpenHandler(({ url }) => {
+      if (/^https?:/.test(url)) {
+        shell.openExternal(url);
+      }
+      return { action: 'deny' };
+    });
+  }
+
+  trackWindow(win);
+  reloadOnPreloadChange(win, preload);
+  forwardPreloadConsole(win, preload);
+
+  loadRoute(win, route, baseUrl).catch((error) => {
+    console.error(`Failed to load ${route || '/'}:`, error);
+  });
+
+  return win;
+}
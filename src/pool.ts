@@ -0,0 +1,38 @@
+/**
+ * Maps over `items` with at most `limit` workers running at once, keeping
+ * results in input order. The first rejection stops new work from starting
+ * and is rethrown once the running workers settle.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const run = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    run
+  );
+  const settled = await Promise.allSettled(workers);
+  const rejected = settled.find(
+    (result): result is PromiseRejectedResult => result.status === 'rejected'
+  );
+  if (rejected) throw rejected.reason;
+
+  return results;
+}
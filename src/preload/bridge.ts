@@ -0,0 +1,39 @@
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron';
+import type { IpcContract, IpcRendererApi } from '../ipc/contract.ts';
+
+export const DEFAULT_API_KEY = 'electronAPI';
+
+// Builds the renderer-facing API for a contract: one method per invoke
+// channel plus `on` for events
+export function createIpcBridge<C extends IpcContract<any>>(
+  contract: C
+): IpcRendererApi<C> {
+  const api: Record<string, unknown> = {};
+
+  for (const channel of contract.invoke) {
+    api[channel] = (...args: unknown[]) => ipcRenderer.invoke(channel, ...args);
+  }
+
+  api.on = (channel: string, listener: (...args: unknown[]) => void) => {
+    if (!contract.events.includes(channel)) {
+      throw new Error(`Unknown IPC event channel "${channel}"`);
+    }
+
+    const handler = (_event: IpcRendererEvent, ...args: unknown[]) =>
+      listener(...args);
+    ipcRenderer.on(channel, handler);
+    return () => {
+      ipcRenderer.removeListener(channel, handler);
+    };
+  };
+
+  return api as IpcRendererApi<C>;
+}
+
+/**
+ * Exposes a contract's channels to the renderer through `contextBridge`,
+ * as `window.electronAPI` unless another key is given.
+ */
+export function exposeIpc(contract: IpcContract<any>, key = DEFAULT_API_KEY) {
+  contextBridge.exposeInMainWorld(key, createIpcBridge(contract));
+}
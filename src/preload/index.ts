@@ -0,0 +1 @@
+export { createIpcBridge, exposeIpc, DEFAULT_API_KEY } from './bridge.ts';
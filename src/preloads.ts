@@ -0,0 +1,91 @@
+import path from 'path';
+import { mergeConfig, type UserConfig as ViteUserConfig } from 'vite';
+import type { ElectronOptions } from 'vite-plugin-electron';
+
+export const DEFAULT_PRELOAD_INPUT = 'electron/preload.ts';
+
+// `preload.input`: a single script, or named scripts that each build to
+// their own `<name>.cjs` (or `.mjs`) next to the main process entry
+export type PreloadInput = string | Record<string, string>;
+
+// Sandboxed renderers, Electron's default, can only run CommonJS preload
+// scripts. ES modules need `sandbox: false`
+export type PreloadFormat = 'cjs' | 'esm';
+
+export const DEFAULT_PRELOAD_FORMAT: PreloadFormat = 'cjs';
+
+// Named entries for `preload.input`. A single script is named after its
+// file, like Rollup does, so `electron/preload.ts` becomes `preload`
+export function normalizePreloadInput(
+  input: PreloadInput = DEFAULT_PRELOAD_INPUT
+): Record<string, string> {
+  if (typeof input === 'string') {
+    return { [path.parse(input).name]: input };
+  }
+
+  if (Object.keys(input).length === 0) {
+    throw new Error('`preload.input` needs at least one entry');
+  }
+  for (const name of Object.keys(input)) {
+    if (!/^[\w-]+$/.test(name)) {
+      throw new Error(
+        `Invalid preload name "${name}". Use letters, digits, \`_\` and \`-\` only.`
+      );
+    }
+  }
+  return input;
+}
+
+// File each named preload is emitted as, relative to the main process
+// output. The extension states the format whatever the package's `type` is
+export function getPreloadFileNames(
+  entries: Record<string, string>,
+  format: PreloadFormat = DEFAULT_PRELOAD_FORMAT
+): Record<string, string> {
+  const extension = format === 'esm' ? 'mjs' : 'cjs';
+  return Object.fromEntries(
+    Object.keys(entries).map((name) => [name, `${name}.${extension}`])
+  );
+}
+
+// File of the preload script windows get unless they ask for another: the
+// `preload` entry, or the first one
+export function getDefaultPreload(fileNames: Record<string, string>): string {
+  return fileNames.preload || Object.values(fileNames)[0];
+}
+
+/**
+ * One vite-plugin-electron build per preload script. Preload scripts can't
+ * be split into chunks, so named entries can't share a Rollup build.
+ */
+export function createPreloadBuilds(
+  entries: Record<string, string>,
+  vite: Partial<ViteUserConfig> = {},
+  format: PreloadFormat = DEFAULT_PRELOAD_FORMAT,
+  // Called after each build during `astro dev`. Reloads every page by
+  // default
+  onstart: ElectronOptions['onstart'] = (args) => args.reload()
+): ElectronOptions[] {
+  const fileNames = getPreloadFileNames(entries, format);
+
+  return Object.entries(entries).map(([name, input]) => ({
+    onstart,
+    vite: mergeConfig(
+      {
+        build: {
+          rollupOptions: {
+            input: { [name]: input },
+            output: {
+              format: format === 'esm' ? 'es' : 'cjs',
+              inlineDynamicImports: true,
+              entryFileNames: fileNames[name],
+              chunkFileNames: fileNames[name],
+              assetFileNames: '[name].[ext]',
+            },
+          },
+        },
+      },
+      vite
+    ),
+  }));
+}
@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { RewriteRule } from './rewrite.ts';
+
+export interface RewriteReportEntry {
+  original: string;
+  rewritten: string;
+  rule: RewriteRule;
+}
+
+// Rewritten URLs keyed by output file, relative to dist
+export type RewriteReport = Map<string, RewriteReportEntry[]>;
+
+export const DEFAULT_REPORT_PATH = 'electron-rewrite-report.json';
+
+function countRules(report: RewriteReport): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const entries of report.values()) {
+    for (const { rule } of entries) {
+      totals[rule] = (totals[rule] || 0) + 1;
+    }
+  }
+  return Object.fromEntries(Object.entries(totals).sort());
+}
+
+// Files are sorted so reports from two builds can be diffed
+function sortedFiles(report: RewriteReport): [string, RewriteReportEntry[]][] {
+  return [...report].sort(([a], [b]) => a.localeCompare(b));
+}
+
+export function formatReportJson(report: RewriteReport): string {
+  const files = Object.fromEntries(sortedFiles(report));
+  return `${JSON.stringify({ totals: countRules(report), files }, null, 2)}\n`;
+}
+
+export function formatReportSummary(report: RewriteReport): string {
+  const totals = countRules(report);
+  const count = Object.values(totals).reduce((sum, total) => sum + total, 0);
+  const lines = [
+    `${count} URLs rewritten in ${report.size} files`,
+    ...Object.entries(totals).map(([rule, total]) => `  ${rule}: ${total}`),
+  ];
+
+  for (const [file, entries] of sortedFiles(report)) {
+    lines.push('', `${file} (${entries.length})`);
+    for (const { original, rewritten, rule } of entries) {
+      lines.push(`  [${rule}] ${original} -> ${rewritten}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Writes the report as JSON to `reportPath`, plus a human-readable summary
+ * next to it with a `.txt` extension.
+ */
+export async function writeRewriteReport(
+  report: RewriteReport,
+  reportPath: string
+): Promise<string> {
+  const summaryPath = reportPath.replace(/(\.json)?$/, '.txt');
+
+  await fs.mkdir(path.dirname(reportPath), { recursive: true });
+  await fs.writeFile(reportPath, formatReportJson(report));
+  await fs.writeFile(summaryPath, formatReportSummary(report));
+
+  return summaryPath;
+}
@@ -0,0 +1,448 @@
+import path from 'path';
+import type { AstroConfig } from 'astro';
+import { rewriteCss } from './css.ts';
+import type { HtmlRewriteHandlers } from './html.ts';
+import {
+  createRuntimeConfigScript,
+  parseRuntimeConfigScript,
+} from './runtime.ts';
+
+export interface UrlRewriteContext {
+  // Convert page links to `#/route` hash routes
+  isHashRouting: boolean;
+  // Page being rewritten, relative to dist
+  file: string;
+  // Directory of the page being rewritten, relative to dist
+  pageDir: string;
+  // Astro's `build.format`, used to locate the file behind a page link
+  format: AstroConfig['build']['format'];
+  trailingSlash: AstroConfig['trailingSlash'];
+  // The project's configured `base`, stripped from root-absolute URLs
+  base: string;
+  // HTML files emitted to dist, needed to resolve `preserve` format links
+  pages: Set<string>;
+  // Every file emitted to dist, so links to files such as `/rss.xml` aren't
+  // taken for pages
+  files?: Set<string>;
+  // Called for every URL that gets rewritten, see `report`
+  record?: RewriteRecorder;
+  // Paths served as-is from dist, see `createAssetPattern`
+  assetPattern?: RegExp;
+  // Runs before the built-in rules, see `rewrite.url`
+  customRule?: CustomRewriteRule;
+}
+
+// What a custom rule knows about the URL it's asked to rewrite
+export interface RewriteRuleContext {
+  // File the URL appears in, relative to dist
+  file: string;
+  // Attribute and element the URL came from. Unset for stylesheets and
+  // inline styles
+  attribute?: string;
+  element?: string;
+  isHashRouting: boolean;
+  base: string;
+}
+
+// Returns the rewritten URL, or `undefined` to fall through to the built-in
+// rules
+export type CustomRewriteRule = (
+  url: string,
+  context: RewriteRuleContext
+) => string | undefined;
+
+export interface RewriteOptions {
+  // Extra attributes holding a single URL, e.g. `data-src`
+  attributes?: string[];
+  // Extra extensions of files served as-is, e.g. `['webp', 'woff2']`
+  assetExtensions?: string[];
+  url?: CustomRewriteRule;
+}
+
+// Which rule rewrote a URL
+export type RewriteRule =
+  | 'hydrate'
+  | '_astro'
+  | 'asset'
+  | 'hash-route'
+  | 'page-link'
+  | 'island'
+  | 'stylesheet'
+  | 'import'
+  | 'custom';
+
+export type RewriteRecorder = (
+  original: string,
+  rewritten: string,
+  rule: RewriteRule
+) => void;
+
+const DEFAULT_ASSET_EXTENSIONS = [
+  'js',
+  'css',
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'svg',
+  'ico',
+];
+
+// Matches paths with one of the default extensions or any of `extra`
+export function createAssetPattern(extra: string[] = []): RegExp {
+  const extensions = [...DEFAULT_ASSET_EXTENSIONS, ...extra].map((extension) =>
+    extension.replace(/^\./, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  );
+  return new RegExp(`\\.(${extensions.join('|')})$`);
+}
+
+const ASSET_EXTENSIONS = createAssetPattern();
+
+// Relative path between two locations inside dist, always starting with
+// `./` or `../`
+function relativeTo(fromDir: string, target: string): string {
+  const relativePath = path.posix.relative(fromDir, target);
+  return relativePath.startsWith('../') ? relativePath : `./${relativePath}`;
+}
+
+// Removes the configured base from a root-absolute URL, since everything is
+// resolved relative to dist instead
+export function stripBase(url: string, base: string): string {
+  const prefix = base.replace(/\/+$/, '');
+  if (!prefix || !url.startsWith(prefix)) return url;
+
+  const rest = url.slice(prefix.length);
+  if (!rest) return '/';
+  return /^[/?#]/.test(rest) ? rest : url;
+}
+
+// Locates the HTML file Astro emitted for a route path such as `blog/post`
+export function resolvePagePath(
+  routePath: string,
+  context: Pick<UrlRewriteContext, 'format' | 'pages'>
+): string {
+  if (!routePath) return 'index.html';
+  if (routePath.endsWith('.html')) return routePath;
+
+  switch (context.format) {
+    case 'file':
+      return `${routePath}.html`;
+    case 'preserve':
+      return context.pages.has(`${routePath}.html`)
+        ? `${routePath}.html`
+        : `${routePath}/index.html`;
+    default:
+      return `${routePath}/index.html`;
+  }
+}
+
+// External URLs, in-page anchors and the like are left alone
+export function isLocalUrl(url: string): boolean {
+  return !(
+    /^[a-z][a-z\d+.-]*:/i.test(url) ||
+    url.startsWith('//') ||
+    url.startsWith('?') ||
+    (url.startsWith('#') && !url.startsWith('#/'))
+  );
+}
+
+// Path inside dist of a script reference that belongs in `_astro`, given
+// root-absolute or as Astro emits it for `base: './'`
+function getAstroTarget(url: string): string {
+  const cleanPath = url.replace(/^(?:\.?\/+)+/, '');
+  return cleanPath.startsWith('_astro/') ? cleanPath : `_astro/${cleanPath}`;
+}
+
+export function rewriteHydrateUrl(url: string, pageDir = '.'): string {
+  if (!isLocalUrl(url)) return url;
+  return relativeTo(pageDir, getAstroTarget(url));
+}
+
+// Runs the configured custom rule, recording any change it makes
+export function applyCustomRule(
+  url: string,
+  context: Pick<
+    UrlRewriteContext,
+    'customRule' | 'record' | 'file' | 'isHashRouting' | 'base'
+  >,
+  attribute?: string,
+  element?: string
+): string | undefined {
+  if (!context.customRule) return undefined;
+
+  const rewritten = context.customRule(url, {
+    file: context.file,
+    attribute,
+    element,
+    isHashRouting: context.isHashRouting,
+    base: context.base,
+  });
+  if (rewritten !== undefined && rewritten !== url) {
+    context.record?.(url, rewritten, 'custom');
+  }
+  return rewritten;
+}
+
+export function rewriteUrl(url: string, context: UrlRewriteContext): string {
+  const result = applyUrlRule(url, context);
+  if (!result) return url;
+
+  if (result.url !== url) {
+    context.record?.(url, result.url, result.rule);
+  }
+  return result.url;
+}
+
+// Pages are left to the page link rules, which know about `build.format`
+function isOutputFile(cleanPath: string, files?: Set<string>): boolean {
+  if (!files || !cleanPath || cleanPath.endsWith('.html')) return false;
+  if (files.has(cleanPath)) return true;
+  try {
+    return files.has(decodeURI(cleanPath));
+  } catch {
+    return false;
+  }
+}
+
+function applyUrlRule(
+  url: string,
+  context: UrlRewriteContext
+): { url: string; rule: RewriteRule } | undefined {
+  if (!isLocalUrl(url)) return undefined;
+  url = stripBase(url, context.base);
+
+  // With `base: './'` Astro emits `./_astro/` on every page, which only
+  // resolves from the root
+  if (url.startsWith('./_astro/')) {
+    url = url.slice(1);
+  }
+
+  // Don't modify relative paths
+  if (url.startsWith('./') || url.startsWith('../')) {
+    return undefined;
+  }
+
+  // Handle hash routes specifically
+  if (url.startsWith('/#/') || url.startsWith('#/')) {
+    // Just preserve the hash route as-is
+    const hashRoute = url.startsWith('/#/') ? url.slice(1) : url;
+    return { url: hashRoute, rule: 'hash-route' };
+  }
+
+  // Keep any query string or fragment out of the path rules
+  const [, pathname, suffix] = url.match(/^([^?#]*)(.*)$/s)!;
+
+  // Clean the path
+  const cleanPath = pathname.replace(/^\/+/, '');
+
+  // Handle _astro directory assets
+  if (cleanPath.startsWith('_astro/')) {
+    return {
+      url: `${relativeTo(context.pageDir, cleanPath)}${suffix}`,
+      rule: '_astro',
+    };
+  }
+
+  // Handle other assets
+  if ((context.assetPattern || ASSET_EXTENSIONS).test(cleanPath)) {
+    return {
+      url: `${relativeTo(context.pageDir, cleanPath)}${suffix}`,
+      rule: 'asset',
+    };
+  }
+
+  // Any other file in the build output, e.g. a feed or a PDF
+  if (isOutputFile(cleanPath, context.files)) {
+    return {
+      url: `${relativeTo(context.pageDir, cleanPath)}${suffix}`,
+      rule: 'asset',
+    };
+  }
+
+  const routePath = cleanPath.replace(/\/+$/, '');
+
+  // Convert to hash routes only in hash-routing components
+  if (context.isHashRouting) {
+    const hashRoute =
+      context.trailingSlash === 'always' && routePath
+        ? `#/${routePath}/`
+        : `#/${routePath}`;
+    return { url: hashRoute, rule: 'hash-route' };
+  }
+
+  // For regular links, point at the page's HTML file relative to the
+  // current page so links survive packaging
+  const targetPath = resolvePagePath(routePath, context);
+  return {
+    url: `${relativeTo(context.pageDir, targetPath)}${suffix}`,
+    rule: 'page-link',
+  };
+}
+
+// Makes a root-absolute reference relative to the directory (inside dist)
+// of the file it appears in, e.g. `/fonts/a.woff2` from `_astro/` becomes
+// `../fonts/a.woff2`
+export function rewriteRootRelativeUrl(
+  url: string,
+  fromDir: string,
+  base = '/'
+): string {
+  if (!isLocalUrl(url) || !url.startsWith('/') || url.startsWith('//')) {
+    return url;
+  }
+  url = stripBase(url, base);
+
+  const [, pathname, suffix] = url.match(/^([^?#]*)(.*)$/s)!;
+  const target = pathname.replace(/^\/+/, '');
+  if (!target) return url;
+
+  return `${relativeTo(fromDir, target)}${suffix}`;
+}
+
+// Fix any remaining absolute paths to the _astro directory, relative to
+// the page they appear in
+export function rewriteAstroPaths(
+  value: string,
+  record?: RewriteRecorder,
+  pageDir = '.'
+): string {
+  const astroDir = `${relativeTo(pageDir, '_astro')}/`;
+  return value.replace(
+    /(^|['"])(\/\.?\/_astro\/|\.\/_astro\/)/g,
+    (match, quote: string, original: string) => {
+      if (original === astroDir) return match;
+      record?.(original, astroDir, '_astro');
+      return `${quote}${astroDir}`;
+    }
+  );
+}
+
+// Rewrites dynamic imports and stray _astro paths in inline scripts
+export function rewriteScript(
+  content: string,
+  record?: RewriteRecorder,
+  pageDir = '.'
+): string {
+  const updated = content.replace(
+    /import\s*\(['"](.*?)['"]\)/g,
+    (match, importPath) => {
+      const cleanImportPath = importPath.replace(/^\/+/, '');
+      if (
+        !isLocalUrl(importPath) ||
+        (cleanImportPath.startsWith('./') &&
+          !cleanImportPath.startsWith('./_astro/')) ||
+        cleanImportPath.startsWith('../')
+      ) {
+        return match;
+      }
+      const rewritten = relativeTo(pageDir, getAstroTarget(cleanImportPath));
+      if (rewritten === importPath) return match;
+      record?.(importPath, rewritten, 'import');
+      return `import("${rewritten}")`;
+    }
+  );
+
+  return rewriteAstroPaths(updated, record, pageDir);
+}
+
+// Rewrites built asset paths (e.g. imported images) inside the props Astro
+// serializes onto an <astro-island>
+export function rewriteIslandProps(
+  json: string,
+  rewrite: (url: string) => string
+): string {
+  let props: unknown;
+  try {
+    props = JSON.parse(json);
+  } catch {
+    return json;
+  }
+
+  let changed = false;
+  const visit = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      if (!/^\/+_astro\//.test(value)) return value;
+      const updated = rewrite(value);
+      changed ||= updated !== value;
+      return updated;
+    }
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, visit(entry)])
+      );
+    }
+    return value;
+  };
+
+  const updated = visit(props);
+  return changed ? JSON.stringify(updated) : json;
+}
+
+// The full set of rules applied to a built page
+export function createPageRewriteHandlers(
+  context: UrlRewriteContext
+): HtmlRewriteHandlers {
+  const { record } = context;
+
+  const recorded =
+    (rule: RewriteRule, rewrite: (url: string) => string) => (url: string) => {
+      const rewritten = rewrite(url);
+      if (rewritten !== url) record?.(url, rewritten, rule);
+      return rewritten;
+    };
+
+  // `./_astro/` is how Astro emits island scripts with `base: './'`
+  const rewriteFromPage = (url: string) =>
+    rewriteRootRelativeUrl(
+      url.startsWith('./_astro/') ? url.slice(1) : url,
+      context.pageDir,
+      context.base
+    );
+  const rewriteIslandUrl = recorded('island', rewriteFromPage);
+  const rewriteStyleUrl = recorded('stylesheet', rewriteFromPage);
+
+  return {
+    url: (url, attribute, element) => {
+      const custom = applyCustomRule(url, context, attribute, element);
+      if (custom !== undefined) return custom;
+
+      if (attribute === 'hydrate') {
+        return recorded('hydrate', (hydrateUrl) =>
+          rewriteHydrateUrl(hydrateUrl, context.pageDir)
+        )(url);
+      }
+      // Island scripts are imported by the page itself
+      if (element === 'astro-island') {
+        return rewriteIslandUrl(url);
+      }
+      return rewriteUrl(url, context);
+    },
+    script: (content) => {
+      // Tell the client helpers how this page was rewritten
+      const runtimeConfig = parseRuntimeConfigScript(content);
+      if (runtimeConfig) {
+        return createRuntimeConfigScript({
+          ...runtimeConfig,
+          hashRouting: context.isHashRouting,
+          root: `${path.posix.relative(context.pageDir, '.') || '.'}/`,
+        });
+      }
+      return rewriteScript(content, record, context.pageDir);
+    },
+    style: (css) =>
+      rewriteCss(
+        css,
+        (url) => applyCustomRule(url, context) ?? rewriteStyleUrl(url)
+      ),
+    islandProps: (json) =>
+      rewriteAstroPaths(
+        rewriteIslandProps(json, rewriteIslandUrl),
+        record,
+        context.pageDir
+      ),
+    attribute: (value) => rewriteAstroPaths(value, record, context.pageDir),
+  };
+}
@@ -0,0 +1,64 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { RouteData } from 'astro';
+
+// URL pathname Astro served a page from, e.g. `blog/index.html` -> `/blog/`
+export function getPagePathname(pagePath: string): string {
+  if (pagePath === 'index.html') return '/';
+  if (pagePath.endsWith('/index.html')) {
+    return `/${pagePath.slice(0, -'index.html'.length)}`;
+  }
+  return `/${pagePath.replace(/\.html$/, '')}`;
+}
+
+// Finds the route that generated a page, preferring an exact distURL match
+// and falling back to the route pattern for dynamic and redirect routes
+export function findPageRoute(
+  pagePath: string,
+  routes: RouteData[],
+  distDir: string
+): RouteData | undefined {
+  const exact = routes.find(
+    (route) =>
+      route.distURL &&
+      path
+        .relative(distDir, fileURLToPath(route.distURL))
+        .replace(/\\/g, '/') === pagePath
+  );
+  if (exact) return exact;
+
+  const pathname = getPagePathname(pagePath);
+  const candidates = [pathname, pathname.replace(/(.)\/$/, '$1')];
+
+  // Routes are sorted by priority, so the first match is the one Astro used
+  return routes.find((route) =>
+    candidates.some((candidate) => route.pattern.test(candidate))
+  );
+}
+
+/**
+ * Maps every page to post-process (relative to dist) to the route it came
+ * from. Pages found on disk and route distURLs are merged so each file is
+ * only processed once.
+ */
+export function collectPages(
+  htmlFiles: string[],
+  routes: RouteData[],
+  distDir: string
+): Map<string, RouteData | undefined> {
+  const pagePaths = new Set(htmlFiles);
+
+  for (const route of routes) {
+    if (route.distURL) {
+      pagePaths.add(
+        path.relative(distDir, fileURLToPath(route.distURL)).replace(/\\/g, '/')
+      );
+    }
+  }
+
+  return new Map(
+    [...pagePaths]
+      .sort()
+      .map((pagePath) => [pagePath, findPageRoute(pagePath, routes, distDir)])
+  );
+}
@@ -0,0 +1,84 @@
+// How page links are written in the production build:
+// - `file`: relative links to each page's HTML file
+// - `hash`: `#/route` links for client-side hash routers
+// - `protocol`: left as-is, served by `serveAppProtocol`
+// - `auto`: `hash` for pages that look like they use a hash router
+export type RoutingMode = 'file' | 'hash' | 'protocol' | 'auto';
+
+// Modes that can be chosen per page
+export type PageRoutingMode = Exclude<RoutingMode, 'protocol'>;
+
+// Common hash-based routing patterns
+const HASH_ROUTING_PATTERNS = [
+  'createHashRouter', // react-router
+  'createWebHashHistory', // vue-router
+  'HashRouter', // react-router-dom
+  'useHashRouter', // various frameworks
+  'mode: "hash"', // various routers
+  'type: "hash"', // various routers
+];
+
+/**
+ * The `auto` heuristic. Returns why a page looks like it uses hash routing,
+ * or undefined when it doesn't.
+ */
+export function detectHashRouting(
+  content: string,
+  filePath: string
+): string | undefined {
+  // Check if the file is a router configuration
+  if (filePath.includes('router')) {
+    return `file path "${filePath}" contains "router"`;
+  }
+
+  // Or if it contains hash routing patterns
+  const pattern = HASH_ROUTING_PATTERNS.find((pattern) =>
+    content.includes(pattern)
+  );
+  return pattern ? `found "${pattern}" in the page` : undefined;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      // `/**` also matches the directory itself
+      if (source.endsWith('/')) {
+        source = `${source.slice(0, -1)}(?:/.*)?`;
+      } else {
+        source += '.*';
+      }
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+// Matches a page pathname such as `/blog/post/` against a glob like
+// `/blog/**`. Trailing slashes are ignored on both sides.
+export function matchRoute(pathname: string, glob: string): boolean {
+  const normalize = (value: string) => value.replace(/(.)\/+$/, '$1');
+  return globToRegExp(normalize(glob)).test(normalize(pathname));
+}
+
+// Picks the routing mode for a page; the first matching override wins
+export function resolveRoutingMode(
+  pathname: string,
+  routing: PageRoutingMode,
+  overrides: Record<string, PageRoutingMode> = {}
+): PageRoutingMode {
+  const match = Object.keys(overrides).find((glob) =>
+    matchRoute(pathname, glob)
+  );
+  return match ? overrides[match] : routing;
+}
@@ -0,0 +1,37 @@
+import type { AstroConfig } from 'astro';
+
+// Global the injected runtime config is stored on, read by
+// `astro-electron-ts/client`
+export const RUNTIME_CONFIG_GLOBAL = '__ASTRO_ELECTRON__';
+
+export interface RuntimeConfig {
+  format: AstroConfig['build']['format'];
+  trailingSlash: AstroConfig['trailingSlash'];
+  // The project's configured `base`
+  base: string;
+  // Set per page by the build step when pages are rewritten for `file://`
+  hashRouting?: boolean;
+  // Renderer root relative to the page, e.g. `../../`
+  root?: string;
+}
+
+const SCRIPT_PREFIX = `window.${RUNTIME_CONFIG_GLOBAL}=`;
+
+export function createRuntimeConfigScript(config: RuntimeConfig): string {
+  return `${SCRIPT_PREFIX}${JSON.stringify(config)};`;
+}
+
+// Reads the config back from an injected script, or returns undefined for
+// any other script
+export function parseRuntimeConfigScript(
+  content: string
+): RuntimeConfig | undefined {
+  const script = content.trim();
+  if (!script.startsWith(SCRIPT_PREFIX)) return undefined;
+
+  try {
+    return JSON.parse(script.slice(SCRIPT_PREFIX.length).replace(/;$/, ''));
+  } catch {
+    return undefined;
+  }
+}
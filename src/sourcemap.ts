@@ -0,0 +1,16 @@
+// Vite's `build.sourcemap`. `hidden` emits maps without linking them from
+// the bundle, for crash reporting services that upload them
+export type SourcemapOption = boolean | 'inline' | 'hidden';
+
+/**
+ * Source maps for the main process and preload builds. Dev builds inline
+ * them, so the debugger never reads a stale map file. Production builds emit
+ * linked `.map` files next to the bundle, which `installSourceMapSupport`
+ * from `astro-electron-ts/main` reads when an error is formatted.
+ */
+export function resolveSourcemap(
+  option: SourcemapOption | undefined,
+  dev: boolean
+): SourcemapOption {
+  return option ?? (dev ? 'inline' : true);
+}
@@ -0,0 +1,124 @@
+import { defineToolbarApp } from 'astro/toolbar';
+import {
+  TOOLBAR_EVENTS,
+  type DevIpcCall,
+  type ElectronDevState,
+} from './state.ts';
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Route a window shows, relative to the dev server
+function getRoute(url: string): string {
+  try {
+    const { pathname, search, hash } = new URL(url);
+    return `${pathname}${search}${hash}`;
+  } catch {
+    return url;
+  }
+}
+
+// Methods the preload script exposed on `window.electronAPI`
+function getPreloadApi(): string[] | undefined {
+  const api = (window as { electronAPI?: object }).electronAPI;
+  return api ? Object.keys(api).sort() : undefined;
+}
+
+function renderIpcCall(call: DevIpcCall): string {
+  const args = JSON.stringify(call.args);
+  return `<tr>
+    <td><code>${escapeHtml(call.channel)}</code></td>
+    <td title="${escapeHtml(args)}"><code>${escapeHtml(
+    args.length > 80 ? `${args.slice(0, 79)}…` : args
+  )}</code></td>
+    <td>${call.duration.toFixed(1)}ms</td>
+    <td>${
+      call.error
+        ? `<astro-dev-toolbar-badge badge-style="red">${escapeHtml(
+            call.error
+          )}</astro-dev-toolbar-badge>`
+        : ''
+    }</td>
+  </tr>`;
+}
+
+export function renderDevState(
+  state: ElectronDevState | null,
+  preloadApi: string[] | undefined
+): string {
+  const api = preloadApi
+    ? preloadApi.length > 0
+      ? preloadApi.map((key) => `<code>${escapeHtml(key)}</code>`).join(' ')
+      : '<p>No enumerable methods (served by the dev server in a browser)</p>'
+    : '<p>No <code>window.electronAPI</code> in this page</p>';
+
+  if (!state) {
+    return `<h2>Preload API</h2>${api}
+      <p>Waiting for the main process. It reports once a window is opened with <code>createAppWindow</code> or <code>openWindow</code>.</p>`;
+  }
+
+  const windows = state.windows
+    .map(
+      (win) =>
+        `<li><strong>${escapeHtml(
+          win.name || `#${win.id}`
+        )}</strong> ${escapeHtml(win.title)} <code>${escapeHtml(
+          getRoute(win.url)
+        )}</code></li>`
+    )
+    .join('');
+  const ipc = [...state.ipc].reverse().map(renderIpcCall).join('');
+
+  return `<p>Electron ${escapeHtml(
+    state.versions.electron
+  )} · Chromium ${escapeHtml(state.versions.chrome)} · Node ${escapeHtml(
+    state.versions.node
+  )}</p>
+    <h2>Windows</h2>
+    <ul>${windows || '<li>None</li>'}</ul>
+    <h2>Preload API</h2>${api}
+    <h2>Recent IPC calls</h2>
+    ${
+      ipc
+        ? `<table><thead><tr><th>Channel</th><th>Arguments</th><th>Time</th><th></th></tr></thead><tbody>${ipc}</tbody></table>`
+        : '<p>None yet. Calls are recorded for channels registered with <code>handleIpc</code>.</p>'
+    }`;
+}
+
+export default defineToolbarApp({
+  init(canvas, _app, server) {
+    const panel = document.createElement('astro-dev-toolbar-window');
+    panel.innerHTML = `<style>
+      header { display: flex; gap: 8px; align-items: center; }
+      header h1 { flex: 1; font-size: 18px; margin: 0; }
+      h2 { font-size: 14px; margin: 16px 0 4px; }
+      table { width: 100%; border-collapse: collapse; }
+      td, th { text-align: left; padding: 2px 6px; }
+      #content { overflow: auto; max-height: 60vh; }
+    </style>
+    <header>
+      <h1>Electron</h1>
+      <astro-dev-toolbar-button id="reload" size="small">Reload renderer</astro-dev-toolbar-button>
+      <astro-dev-toolbar-button id="restart" size="small" button-style="red">Restart main process</astro-dev-toolbar-button>
+    </header>
+    <div id="content"></div>`;
+    canvas.append(panel);
+
+    const content = panel.querySelector('#content')!;
+    const render = (state: ElectronDevState | null) => {
+      content.innerHTML = renderDevState(state, getPreloadApi());
+    };
+    render(null);
+
+    panel
+      .querySelector('#reload')!
+      .addEventListener('click', () => location.reload());
+    panel
+      .querySelector('#restart')!
+      .addEventListener('click', () => server.send(TOOLBAR_EVENTS.restart, {}));
+
+    server.on<ElectronDevState | null>(TOOLBAR_EVENTS.state, render);
+    server.send(TOOLBAR_EVENTS.requestState, {});
+  },
+});
@@ -0,0 +1,40 @@
+// Shared by the main process helpers, the dev server and the toolbar app
+
+// Dev server path the main process posts its state to
+export const DEVTOOLS_ENDPOINT = '/__astro-electron/devtools';
+
+export const TOOLBAR_APP_ID = 'astro-electron-ts';
+
+// Messages between the dev server and the toolbar app
+export const TOOLBAR_EVENTS = {
+  state: 'astro-electron:state',
+  requestState: 'astro-electron:request-state',
+  restart: 'astro-electron:restart',
+} as const;
+
+// How many IPC calls the main process keeps for the toolbar
+export const MAX_IPC_CALLS = 50;
+
+export interface DevWindowState {
+  id: number;
+  // Set for windows opened with `openWindow`
+  name?: string;
+  title: string;
+  url: string;
+}
+
+export interface DevIpcCall {
+  channel: string;
+  args: unknown;
+  // Milliseconds the handler took
+  duration: number;
+  // When the call was made, in milliseconds since the epoch
+  time: number;
+  error?: string;
+}
+
+export interface ElectronDevState {
+  versions: { electron: string; chrome: string; node: string };
+  windows: DevWindowState[];
+  ipc: DevIpcCall[];
+}
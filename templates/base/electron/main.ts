@@ -1,38 +1,17 @@
 // electron/main.ts
 import { app, BrowserWindow } from 'electron';
-import { fileURLToPath } from 'node:url';
-import path from 'node:path';
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-
-process.env.APP_ROOT = path.join(__dirname, '..');
-
-export const VITE_DEV_SERVER_URL = process.env['VITE_DEV_SERVER_URL'];
-export const MAIN_DIST = path.join(process.env.APP_ROOT, 'dist-electron');
-export const RENDERER_DIST = path.join(process.env.APP_ROOT, 'dist');
-
-process.env.VITE_PUBLIC = VITE_DEV_SERVER_URL
-  ? path.join(process.env.APP_ROOT, 'public')
-  : RENDERER_DIST;
+import { createAppWindow } from 'astro-electron-ts/main';
 
 let win: BrowserWindow | null;
 
 function createWindow() {
-  win = new BrowserWindow({
+  // Loads the dev server or the built pages, with the preload script and
+  // secure webPreferences already set
+  win = createAppWindow({
+    route: '/',
     width: 1000,
     height: 800,
-    webPreferences: {
-      preload: path.join(__dirname, 'preload.mjs'),
-      contextIsolation: true,
-      nodeIntegration: false,
-    },
   });
-
-  if (VITE_DEV_SERVER_URL) {
-    win.loadURL(VITE_DEV_SERVER_URL);
-  } else {
-    win.loadFile(path.join(RENDERER_DIST, 'index.html'));
-  }
 }
 
 app.on('window-all-closed', () => {
@@ -3,6 +3,11 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: {
     index: 'src/index.ts',
+    'main/index': 'src/main/index.ts',
+    'preload/index': 'src/preload/index.ts',
+    'ipc/index': 'src/ipc/index.ts',
+    'client/index': 'src/client/index.ts',
+    'toolbar/app': 'src/toolbar/app.ts',
     'bin/cli': 'bin/cli.ts',
   },
   format: ['esm'],